@@ -1,40 +1,165 @@
 import { Component, ChangeDetectionStrategy, signal, computed, effect, inject, ElementRef, viewChild, WritableSignal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { DataService } from './services/data.service';
-import { GeminiService } from './services/gemini.service';
-import { TicketData, FilterOptions } from './models/ticket-data.model';
+import { LlmService } from './services/llm.service';
+import { HistoryService } from './services/history.service';
+import { PriorityRulesService } from './services/priority-rules.service';
+import { LessonTemplatesService } from './services/lesson-templates.service';
+import { PrivacyService } from './services/privacy.service';
+import { ResponsePreprocessingService } from './services/response-preprocessing.service';
+import { TicketData, FilterOptions, FilterState } from './models/ticket-data.model';
+import { ContentVersion, GENERATION_KIND_LABELS, GenerationKind, GenerationRecord } from './models/history.model';
+import { LessonPlanInputs } from './models/lesson-plan.model';
+import { PriorityStudent, StudentProfile, TicketFlag } from './models/student.model';
+import { RULE_SEVERITY_LABELS, RuleSeverity } from './models/priority-rule.model';
+import { buildStudentProfiles } from './utils/student-analytics';
+import { flagTicketWithRules } from './utils/priority-rules';
+import { LlmSettingsComponent } from './components/llm-settings/llm-settings.component';
+import { SummaryThemesComponent } from './components/summary-themes/summary-themes.component';
+import { HistorySidebarComponent } from './components/history-sidebar/history-sidebar.component';
+import { StudentProfileComponent } from './components/student-profile/student-profile.component';
+import { RulesEditorComponent } from './components/rules-editor/rules-editor.component';
+import { SessionTrendsComponent } from './components/session-trends/session-trends.component';
+import { ComparisonViewComponent } from './components/comparison-view/comparison-view.component';
+import { TemplateEditorComponent } from './components/template-editor/template-editor.component';
+import { SectionEditorComponent } from './components/section-editor/section-editor.component';
+import { AssessmentPanelComponent } from './components/assessment-panel/assessment-panel.component';
+import { GuideDistributionComponent } from './components/guide-distribution/guide-distribution.component';
+import { SummaryTheme } from './models/summary.model';
+import { SUMMARY_JSON_SCHEMA, parseStructuredSummary, themesToMarkdown } from './utils/structured-summary';
+import { AnswerScales, COLUMN_ROLES, ColumnMapping, ColumnRole, ParsedSheet, ScaleRole } from './models/column-mapping.model';
+import { SCALE_ROLES, scaleScore } from './utils/ticket-scales';
+import { normalizeHeader } from './utils/column-matching';
+import { ExportHeader, buildDocx, buildPdf, downloadBlob } from './utils/document-export';
+import { sectionInstruction } from './utils/lesson-templates';
+import { joinMarkdownSections, splitMarkdownSections } from './utils/markdown-sections';
+import { groupStudentsForGuides } from './utils/differentiated-guides';
+import { ASSESSMENT_JSON_INSTRUCTION, ASSESSMENT_JSON_SCHEMA, parseAssessment } from './utils/assessment';
+import { SECTION_ACTION_LABELS, SectionRevisionRequest, sectionRevisionPrompt } from './utils/section-revision';
+import { aggregateAnswers } from './utils/privacy';
+import { escapeHtml, htmlToText, renderMarkdown } from './utils/safe-markdown';
+import { UNTRUSTED_DATA_INSTRUCTION, detectInjection, untrustedBlock } from './utils/prompt-safety';
+import { PreprocessingStats } from './models/preprocessing.model';
+import { describePreprocessing } from './utils/response-preprocessing';
+import { buildPriorityStudents, chartData, filterByClass, filterByDate, summaryCards } from './utils/ticket-analytics';
+import { SUMMARY_DEFINITIONS, SummaryPrompt, SummaryRequest, SummaryType, buildSummaryRequest, partialSummary } from './utils/summary-requests';
+import { PromptKind, PromptVersion } from './models/prompt-library.model';
+import { renderPrompt } from './utils/prompt-library';
+import { PromptLibraryService } from './services/prompt-library.service';
+import { PromptLibraryComponent } from './components/prompt-library/prompt-library.component';
+import { TextAnalyticsComponent } from './components/text-analytics/text-analytics.component';
+import { mergeNewRows } from './utils/sheet-sync';
+import { defaultExclusions } from './utils/import-validation';
+import { ImportReportComponent } from './components/import-report/import-report.component';
+import { RosterPanelComponent } from './components/roster-panel/roster-panel.component';
+import { RosterService } from './services/roster.service';
+import { classKey, rosterAttendance, rosterForClass } from './utils/roster';
+import { PayloadReviewComponent } from './components/payload-review/payload-review.component';
 
 // Declare external libraries loaded via CDN
 declare var d3: any;
-declare var marked: any;
-declare var html2pdf: any;
-
-interface PriorityStudent {
-  name: string;
-  materia: string;
-  paralelo: string;
-  fecha: string;
-  razon: string;
-  badgeColor: string;
+declare var Papa: any;
+
+interface AiContentState {
+  loading: boolean;
+  content: string | null; // Rendered HTML
+  raw?: string | null; // Markdown as returned by the model
+  themes?: SummaryTheme[] | null; // Set when a structured summary validated
+  recordId?: string | null; // History entry this content was saved as
+  cached?: boolean; // Served from the response cache instead of a new model call
+  sheetRows?: number; // Rows the loaded sheet had when the content was generated
+}
+
+// One model call; multi-step generations (e.g. a plan filled section by section) chain several
+interface GenerationStep {
+  heading?: string; // Section title written before this step's output
+  headingLevel?: number; // Markdown heading level, 3 by default
+  prompt: (generatedSoFar: string) => { userQuery: string, systemPrompt: string };
+}
+
+interface GenerationOptions {
+  jsonSchema?: object;
+  prompt?: PromptVersion; // Prompt library version, saved with the history entry
+  forceRefresh?: boolean; // Ask the model again even if the answer is cached
+  sheetRows?: number; // Rows the prompts were built from, when built before the generation starts
 }
 
+type ExportableKind = 'lessonPlan' | 'studentGuide';
+
+const EXPORT_FILENAMES: Record<ExportableKind, string> = {
+  lessonPlan: 'Plan_de_Clase',
+  studentGuide: 'Guia_del_Estudiante',
+};
+
+// Answers listed for scoring per column; more distinct answers suggest a free-text column
+const MAX_SCALE_ANSWERS = 10;
+
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
   standalone: true,
-  imports: [CommonModule]
+  imports: [CommonModule, LlmSettingsComponent, SummaryThemesComponent, HistorySidebarComponent, StudentProfileComponent, RulesEditorComponent, SessionTrendsComponent, ComparisonViewComponent, TemplateEditorComponent, SectionEditorComponent, AssessmentPanelComponent, GuideDistributionComponent, PayloadReviewComponent, TextAnalyticsComponent, ImportReportComponent, RosterPanelComponent, PromptLibraryComponent]
 })
 export class AppComponent {
   dataService = inject(DataService);
-  private geminiService = inject(GeminiService);
+  llmService = inject(LlmService);
+  private historyService = inject(HistoryService);
+  private priorityRulesService = inject(PriorityRulesService);
+  lessonTemplatesService = inject(LessonTemplatesService);
+  privacyService = inject(PrivacyService);
+  private preprocessingService = inject(ResponsePreprocessingService);
+  private rosterService = inject(RosterService);
+  private promptLibraryService = inject(PromptLibraryService);
 
   // --- UI State Signals ---
   sheetUrl = signal('');
+  isDragOver = signal(false);
   isLoading = signal(false);
   errorMessage = signal<string | null>(null);
   dataLoaded = signal(false);
   
+  // --- Column Mapping Signals ---
+  readonly columnRoles = COLUMN_ROLES;
+  pendingSheet = signal<ParsedSheet | null>(null);
+  columnMappingDraft = signal<ColumnMapping>(this.dataService.mapping());
+  isColumnMappingComplete = computed(() => this.dataService.isMappingComplete(this.columnMappingDraft()));
+  answerScalesDraft = signal<AnswerScales>(this.dataService.scales());
+  readonly scaleLevels = [{ score: 3, label: '3 · Alto' }, { score: 2, label: '2 · Medio' }, { score: 1, label: '1 · Bajo' }];
+  // Most frequent answers of each scored column of the sheet being mapped, with the score they get
+  scaleAnswers = computed(() => {
+    const sheet = this.pendingSheet();
+    if (!sheet) return [];
+    const draft = this.answerScalesDraft();
+    return SCALE_ROLES
+      .map(role => {
+        const answers = this.dataService.answerOptions(sheet, this.columnMappingDraft(), role);
+        return {
+          role,
+          label: COLUMN_ROLES.find(def => def.role === role)!.label,
+          answers: answers.slice(0, MAX_SCALE_ANSWERS).map(answer => ({ answer, score: scaleScore(draft[role], answer) })),
+          hidden: Math.max(0, answers.length - MAX_SCALE_ANSWERS),
+        };
+      })
+      .filter(scale => scale.answers.length);
+  });
+  // A mapped sheet with row-level problems, waiting for the teacher to fix or exclude rows
+  // `fromSync` when reviewing rows a refresh appended, which keeps the generated panels
+  pendingImport = signal<{ sheet: ParsedSheet, mapping: ColumnMapping, fromSync?: boolean } | null>(null);
+  private loadedSheet: ParsedSheet | null = null;
+  private sourceLabel = '';
+
+  // --- Auto-refresh Signals ---
+  readonly autoRefreshIntervals = [1, 2, 5, 10];
+  isSheetSource = signal(false);
+  autoRefreshEnabled = signal(false);
+  autoRefreshMinutes = signal(2);
+  isSyncing = signal(false);
+  lastSyncAt = signal<Date | null>(null);
+  lastSyncAdded = signal(0);
+  syncIssueRows = signal(0); // Appended rows the import validation flagged, waiting for review
+  syncError = signal<string | null>(null);
+
   // --- Filter State Signals ---
   // UI-bound filters
   startDate = signal('');
@@ -57,52 +182,41 @@ export class AppComponent {
     return { materias, paralelos };
   });
 
-  filteredData = computed(() => {
-    const data = this.allData();
-    const start = this.appliedStartDate();
-    const end = this.appliedEndDate();
-    const materia = this.appliedSelectedMateria();
-    const paralelo = this.appliedSelectedParalelo();
+  // Rows within the applied date range, regardless of Materia/Paralelo
+  dateFilteredData = computed(() => filterByDate(this.allData(), this.appliedStartDate(), this.appliedEndDate()));
 
-    if (!data.length) return [];
+  filteredData = computed(() => filterByClass(this.dateFilteredData(), this.appliedSelectedMateria(), this.appliedSelectedParalelo()));
 
-    return data.filter(row => {
-      const rowDate = row.Timestamp;
-      const isAfterStartDate = !start || (rowDate && rowDate >= new Date(start));
-      const endDateTime = end ? new Date(end) : null;
-      if (endDateTime) endDateTime.setHours(23, 59, 59, 999);
-      const isBeforeEndDate = !end || (rowDate && rowDate <= endDateTime);
-      const isCorrectMateria = !materia || row.Materia === materia;
-      const isCorrectParalelo = !paralelo || row.Paralelo === paralelo;
+  // --- Summary Card Signals ---
+  private summaryCards = computed(() => summaryCards(this.filteredData(), (row, role) => this.dataService.value(row, role), this.dataService.scales()));
+  totalResponses = computed(() => this.summaryCards().totalResponses);
+  averageScore = computed(() => this.summaryCards().averageScore);
+  averageComprehension = computed(() => this.summaryCards().averageComprehension);
 
-      return isAfterStartDate && isBeforeEndDate && isCorrectMateria && isCorrectParalelo;
-    });
-  });
+  lessonPlanHistory = computed(() => this.historyService.records().filter(r => r.kind === 'lessonPlan'));
 
-  // --- Summary Card Signals ---
-  totalResponses = computed(() => this.filteredData().length);
-  averageScore = computed(() => {
-    const scores = this.filteredData()
-      .map(d => parseInt(d[this.dataService.scoreIndex]))
-      .filter(s => !isNaN(s) && s >= 1 && s <= 10);
-    return scores.length ? (scores.reduce((a, b) => a + b, 0) / scores.length).toFixed(2) : 'N/A';
+  // Roster size of each class (Materia + Paralelo, see classKey), for response rates
+  enrolledByClass = computed(() => {
+    const counts = new Map<string, number>();
+    for (const student of this.rosterService.students()) {
+      const key = classKey(student.materia, student.paralelo);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
   });
-  averageComprehension = computed(() => {
-    const comprehensionMap: { [key: string]: number } = {
-      "¡Entendido! - Lo domino y podría explicarlo.": 3,
-      "Más o menos. - Entendí la idea general, pero tengo dudas.": 2,
-      "No entendí casi nada. - Me siento bastante perdido/a.": 1,
-    };
-    const scores = this.filteredData()
-      .map(d => comprehensionMap[d[this.dataService.comprehensionIndex]?.trim()])
-      .filter(Boolean);
-    if (!scores.length) return 'N/A';
-    
-    const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
-    if (avg >= 2.7) return "¡Excelente Comprensión!";
-    if (avg >= 2.0) return "Buena (Pocas Dudas)";
-    if (avg >= 1.0) return "Media (Necesita Revisión)";
-    return "Baja (Refuerzo Urgente)";
+
+  // Responses in the current filter fetched after each panel's content was generated. Refreshes
+  // only append rows, so those are the rows past the sheet's length at generation time.
+  newResponsesSince = computed(() => {
+    const data = this.filteredData();
+    const counts: Partial<Record<GenerationKind, number>> = {};
+    for (const [kind, panel] of Object.entries(this.aiPanels) as [GenerationKind, WritableSignal<AiContentState>][]) {
+      const sheetRows = panel().sheetRows;
+      if (sheetRows === undefined) continue;
+      const count = data.filter(row => row.rowNumber > sheetRows + 1).length;
+      if (count) counts[kind] = count;
+    }
+    return counts;
   });
 
   // --- AI Summary Signals ---
@@ -112,6 +226,16 @@ export class AppComponent {
   suggestions = this.createSummarySignal();
   lessonPlan = this.createSummarySignal();
   studentGuide = this.createSummarySignal();
+  assessment = this.createSummarySignal();
+  private readonly aiPanels: Record<GenerationKind, WritableSignal<AiContentState>> = {
+    learnings: this.learnings,
+    confused: this.confused,
+    questions: this.questions,
+    suggestions: this.suggestions,
+    lessonPlan: this.lessonPlan,
+    studentGuide: this.studentGuide,
+    assessment: this.assessment,
+  };
 
   // Placeholders for AI summary sections
   learningsPlaceholder = `<p class="text-gray-500 italic text-sm">Haz clic para generar un resumen de los aprendizajes clave.</p>`;
@@ -120,11 +244,22 @@ export class AppComponent {
   suggestionsPlaceholder = `<p class="text-gray-500 italic text-sm">Haz clic para resumir las sugerencias de mejora.</p>`;
   lessonPlanPlaceholder = `<p class="text-gray-500 italic text-sm">El plan de clase generado por IA aparecerá aquí.</p>`;
   studentGuidePlaceholder = `<p class="text-gray-500 italic text-sm">La guía de estudio y refuerzo aparecerá aquí.</p>`;
+  generatingPlaceholder = `<p class="text-gray-500 italic text-sm animate-pulse">Generando...</p>`;
   
+  private generationControllers = new Map<WritableSignal<AiContentState>, AbortController>();
+
   // --- UI Toggles ---
   isPriorityListVisible = signal(false);
   isRawDataVisible = signal(false);
   isModalVisible = signal(false);
+  isLlmSettingsVisible = signal(false);
+  isHistoryVisible = signal(false);
+  selectedStudentEmail = signal<string | null>(null);
+  isRulesEditorVisible = signal(false);
+  isComparisonVisible = signal(false);
+  isTemplateEditorVisible = signal(false);
+  isPromptLibraryVisible = signal(false);
+  revisingSection = signal<{ kind: ExportableKind, index: number } | null>(null);
 
   // --- Modal Form Data ---
   modalNextTopic = signal('');
@@ -133,6 +268,9 @@ export class AppComponent {
   modalMateriaOutcome = signal('');
   modalUnitOutcome = signal('');
   modalClassProduct = signal('');
+  modalTemplateId = signal(this.lessonTemplatesService.templates()[0]?.id ?? '');
+  modalTemplateFields = signal<Record<string, string>>({});
+  selectedTemplate = computed(() => this.lessonTemplatesService.find(this.modalTemplateId()));
   modalErrorMessage = signal<string|null>(null);
   
   // --- D3 Chart Elements ---
@@ -155,19 +293,56 @@ export class AppComponent {
         this.clearCharts();
       }
     });
+
+    effect(onCleanup => {
+      // Poll the sheet while auto-refresh is on; changing the interval restarts the timer
+      if (!this.autoRefreshEnabled() || !this.dataLoaded() || !this.isSheetSource()) return;
+      const handle = setInterval(() => this.syncSheet(), this.autoRefreshMinutes() * 60_000);
+      onCleanup(() => clearInterval(handle));
+    });
+
+    effect(() => {
+      // Every loaded email feeds the redactor, so names are caught even in other filters
+      this.privacyService.setStudentEmails(
+        this.allData().map(row => row['Email Address']).filter(Boolean),
+        this.rosterService.students().map(student => student.name),
+      );
+    });
+
+    this.restoreSession();
   }
   
   // --- Data Loading and Filtering ---
   async loadData() {
+    await this.runDataLoad(() => this.dataService.loadDataFromSheet(this.sheetUrl()), this.sheetUrl());
+  }
+
+  async loadFile(file: File) {
+    await this.runDataLoad(() => this.dataService.loadDataFromFile(file), file.name);
+  }
+
+  private async runDataLoad(loader: () => Promise<ParsedSheet>, sourceLabel: string) {
     this.isLoading.set(true);
     this.errorMessage.set(null);
     this.dataLoaded.set(false);
+    this.pendingSheet.set(null);
+    this.pendingImport.set(null);
 
     try {
-      const data = await this.dataService.loadDataFromSheet(this.sheetUrl());
-      this.allData.set(data);
-      this.applyFilters();
-      this.dataLoaded.set(true);
+      const sheet = await loader();
+      const { mapping, confirmed } = this.dataService.resolveMapping(sheet);
+      this.loadedSheet = sheet;
+      this.sourceLabel = sourceLabel;
+      this.isSheetSource.set(sourceLabel.startsWith('http'));
+      this.lastSyncAt.set(null);
+      this.columnMappingDraft.set(mapping);
+      this.answerScalesDraft.set(this.dataService.resolveScales(sheet));
+      if (confirmed) {
+        this.applyColumnMapping(sheet, mapping);
+      } else {
+        // Let the teacher review the roles that could not be matched automatically
+        this.pendingSheet.set(sheet);
+      }
     } catch (error: any) {
       this.errorMessage.set(error.message);
       this.allData.set([]);
@@ -176,11 +351,212 @@ export class AppComponent {
     }
   }
 
+  // Fetches the sheet again and appends only unseen submissions; filters and generated content stay as they are
+  async syncSheet() {
+    const current = this.loadedSheet;
+    if (!current || !this.isSheetSource() || this.isSyncing() || this.pendingSheet() || this.pendingImport()) return;
+    this.isSyncing.set(true);
+    try {
+      const mapping = this.dataService.mapping();
+      const { sheet, added } = mergeNewRows(current, await this.dataService.loadDataFromSheet(this.sourceLabel), mapping);
+      // A manual load may have replaced the sheet while the request was in flight
+      if (this.loadedSheet !== current) return;
+      let excluded: number[] = [];
+      if (added) {
+        // New rows get the same checks as an import: unusable rows and repeats are left out until reviewed
+        const issues = this.dataService.validate(sheet, mapping).filter(issue => issue.row > current.rows.length + 1);
+        excluded = defaultExclusions(issues);
+        this.loadedSheet = excluded.length ? { ...sheet, excludedRows: [...(sheet.excludedRows ?? []), ...excluded] } : sheet;
+        this.allData.set(this.dataService.toTicketData(this.loadedSheet, mapping));
+        this.syncIssueRows.update(count => count + new Set(issues.map(issue => issue.row)).size);
+        this.saveSession();
+      }
+      this.lastSyncAdded.set(added - excluded.length);
+      this.lastSyncAt.set(new Date());
+      this.syncError.set(null);
+    } catch (error: any) {
+      this.syncError.set(error.message);
+    } finally {
+      this.isSyncing.set(false);
+    }
+  }
+
+  reviewSyncedRows() {
+    if (!this.loadedSheet || this.pendingImport()) return;
+    this.pendingImport.set({ sheet: this.loadedSheet, mapping: this.dataService.mapping(), fromSync: true });
+  }
+
+  onAutoRefreshToggle(event: Event) {
+    this.autoRefreshEnabled.set((event.target as HTMLInputElement).checked);
+  }
+
+  onAutoRefreshIntervalChange(event: Event) {
+    this.autoRefreshMinutes.set(Number((event.target as HTMLSelectElement).value));
+  }
+
+  // --- Column Mapping ---
+  editColumnMapping() {
+    if (!this.loadedSheet) return;
+    this.columnMappingDraft.set(this.dataService.mapping());
+    this.answerScalesDraft.set(this.dataService.scales());
+    this.pendingSheet.set(this.loadedSheet);
+  }
+
+  onColumnMappingChange(event: Event, role: ColumnRole) {
+    const header = (event.target as HTMLSelectElement).value;
+    this.columnMappingDraft.update(mapping => ({ ...mapping, [role]: header || null }));
+  }
+
+  onAnswerScoreChange(event: Event, role: ScaleRole, answer: string) {
+    const score = Number((event.target as HTMLSelectElement).value);
+    this.answerScalesDraft.update(scales => {
+      const scale = Object.fromEntries(Object.entries(scales[role]).filter(([option]) => normalizeHeader(option) !== normalizeHeader(answer)));
+      return { ...scales, [role]: score ? { ...scale, [answer]: score } : scale };
+    });
+  }
+
+  confirmColumnMapping() {
+    const sheet = this.pendingSheet();
+    if (!sheet) return;
+    try {
+      this.dataService.saveScales(sheet.sourceKey, this.reviewedScales(sheet));
+      this.dataService.saveMapping(sheet.sourceKey, this.columnMappingDraft());
+      this.applyColumnMapping(sheet, this.columnMappingDraft());
+    } catch (error: any) {
+      this.errorMessage.set(error.message);
+    }
+  }
+
+  // The scores of the answers each mapped column holds; roles without answers keep their scale
+  private reviewedScales(sheet: ParsedSheet): AnswerScales {
+    const draft = this.answerScalesDraft();
+    return Object.fromEntries(SCALE_ROLES.map(role => {
+      const scored = this.dataService.answerOptions(sheet, this.columnMappingDraft(), role)
+        .flatMap(answer => {
+          const score = scaleScore(draft[role], answer);
+          return score ? [[answer, score]] : [];
+        });
+      return [role, scored.length ? Object.fromEntries(scored) : draft[role]];
+    })) as AnswerScales;
+  }
+
+  cancelColumnMapping() {
+    this.pendingSheet.set(null);
+    if (!this.dataLoaded()) this.loadedSheet = null;
+  }
+
+  private applyColumnMapping(sheet: ParsedSheet, mapping: ColumnMapping) {
+    if (!this.dataService.isMappingComplete(mapping)) {
+      throw new Error("Asigna todas las columnas obligatorias antes de continuar.");
+    }
+    this.pendingSheet.set(null);
+    if (this.dataService.validate(sheet, mapping).length) {
+      this.pendingImport.set({ sheet, mapping });
+      return;
+    }
+    this.finishImport(sheet, mapping);
+  }
+
+  // --- Import Report ---
+  confirmImport(sheet: ParsedSheet) {
+    const pending = this.pendingImport();
+    if (!pending) return;
+    try {
+      if (pending.fromSync) {
+        // Only refreshed rows changed: apply the review without resetting filters or panels
+        this.allData.set(this.dataService.toTicketData(sheet, pending.mapping));
+        this.loadedSheet = sheet;
+        this.pendingImport.set(null);
+        this.syncIssueRows.set(0);
+        this.saveSession();
+      } else {
+        this.finishImport(sheet, pending.mapping);
+      }
+    } catch (error: any) {
+      this.errorMessage.set(error.message);
+    }
+  }
+
+  cancelImport() {
+    this.pendingImport.set(null);
+    if (!this.dataLoaded()) this.loadedSheet = null;
+  }
+
+  private finishImport(sheet: ParsedSheet, mapping: ColumnMapping) {
+    this.allData.set(this.dataService.toTicketData(sheet, mapping));
+    // Fixes and exclusions live on the sheet, so refreshes and restored sessions keep them
+    this.loadedSheet = sheet;
+    this.errorMessage.set(null);
+    this.pendingImport.set(null);
+    this.syncIssueRows.set(0);
+    this.applyFilters();
+    this.dataLoaded.set(true);
+  }
+
+  // --- Session Persistence ---
+  private async restoreSession() {
+    try {
+      const session = await this.historyService.loadSession();
+      if (!session || this.dataLoaded()) return;
+
+      this.loadedSheet = session.sheet;
+      this.sourceLabel = session.sourceLabel;
+      this.isSheetSource.set(session.sourceLabel.startsWith('http'));
+      if (this.isSheetSource()) this.sheetUrl.set(session.sourceLabel);
+      this.allData.set(this.dataService.toTicketData(session.sheet, session.mapping));
+      this.columnMappingDraft.set(session.mapping);
+      this.setFilters(session.filters);
+      for (const [kind, panel] of Object.entries(session.panels)) {
+        this.aiPanels[kind as GenerationKind].set({ ...this.finalContentState(panel.raw, false, panel.themes, panel.recordId), sheetRows: panel.sheetRows });
+      }
+      this.dataLoaded.set(true);
+    } catch (error) {
+      console.error("Could not restore the previous session:", error);
+    }
+  }
+
+  private saveSession() {
+    if (!this.loadedSheet || !this.allData().length) return;
+    const panels: Record<string, { raw: string, themes: SummaryTheme[] | null, recordId: string | null, sheetRows?: number }> = {};
+    for (const [kind, panel] of Object.entries(this.aiPanels)) {
+      const state = panel();
+      if (state.raw && !state.loading) {
+        panels[kind] = { raw: state.raw, themes: state.themes ?? null, recordId: state.recordId ?? null, sheetRows: state.sheetRows };
+      }
+    }
+    this.historyService.saveSession({
+      sheet: this.loadedSheet,
+      mapping: this.dataService.mapping(),
+      sourceLabel: this.sourceLabel,
+      filters: this.currentFilters(),
+      panels,
+    });
+  }
+
   onUrlInput(event: Event) {
     const input = event.target as HTMLInputElement;
     this.sheetUrl.set(input.value);
   }
 
+  onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) this.loadFile(file);
+    input.value = ''; // Allow re-selecting the same file
+  }
+
+  onFileDragOver(event: DragEvent) {
+    event.preventDefault();
+    this.isDragOver.set(true);
+  }
+
+  onFileDrop(event: DragEvent) {
+    event.preventDefault();
+    this.isDragOver.set(false);
+    const file = event.dataTransfer?.files?.[0];
+    if (file) this.loadFile(file);
+  }
+
   onFilterChange(event: Event, filterType: 'startDate' | 'endDate' | 'materia' | 'paralelo') {
       const value = (event.target as HTMLInputElement).value;
       if(filterType === 'startDate') this.startDate.set(value);
@@ -198,174 +574,616 @@ export class AppComponent {
     // Reset summaries when filters are applied
     this.resetAISummaries();
     this.resetLessonPlan();
+    this.saveSession();
+  }
+
+  private currentFilters(): FilterState {
+    return {
+      startDate: this.appliedStartDate(),
+      endDate: this.appliedEndDate(),
+      materia: this.appliedSelectedMateria(),
+      paralelo: this.appliedSelectedParalelo(),
+    };
+  }
+
+  // Sets both the UI-bound and applied filters without resetting the AI panels
+  private setFilters(filters: FilterState) {
+    this.startDate.set(filters.startDate);
+    this.endDate.set(filters.endDate);
+    this.selectedMateria.set(filters.materia);
+    this.selectedParalelo.set(filters.paralelo);
+    this.appliedStartDate.set(filters.startDate);
+    this.appliedEndDate.set(filters.endDate);
+    this.appliedSelectedMateria.set(filters.materia);
+    this.appliedSelectedParalelo.set(filters.paralelo);
   }
 
   private resetAISummaries() {
+    [this.learnings, this.confused, this.questions, this.suggestions].forEach(s => this.abortGeneration(s, 'reset'));
     this.learnings.set({ content: null, loading: false });
     this.confused.set({ content: null, loading: false });
     this.questions.set({ content: null, loading: false });
     this.suggestions.set({ content: null, loading: false });
+    this.summaryInputStats.set({});
   }
 
   private resetLessonPlan() {
+    [this.lessonPlan, this.studentGuide, this.assessment].forEach(s => this.abortGeneration(s, 'reset'));
     this.lessonPlan.set({ content: null, loading: false });
     this.studentGuide.set({ content: null, loading: false });
+    this.assessment.set({ content: null, loading: false });
   }
 
   // --- AI Generation Methods ---
   private createSummarySignal() {
-    return signal({ loading: false, content: null as string | null });
+    return signal<AiContentState>({ loading: false, content: null, raw: null });
   }
 
-  generateSummary(type: 'learnings' | 'confused' | 'questions' | 'suggestions') {
+  // How many answers each summary used, grouped and discarded
+  summaryInputStats = signal<Partial<Record<SummaryType, PreprocessingStats>>>({});
+  readonly describePreprocessing = describePreprocessing;
+
+  async generateSummary(type: SummaryType, forceRefresh = false) {
       const data = this.filteredData();
       if (!data.length) return;
 
-      let responses: string[], systemPrompt: string, stateSignal: WritableSignal<any>, dataIndex: string;
-
-      switch(type) {
-        case 'learnings':
-          dataIndex = this.dataService.learningIndex;
-          systemPrompt = "Eres un asistente de análisis educativo. Tu tarea es leer las respuestas de los estudiantes sobre su aprendizaje más importante de la clase y generar un resumen conciso y profesional, identificando los 3 a 5 temas o ideas principales mencionados. Formatea el resultado usando Markdown con una lista numerada de los puntos clave.";
-          stateSignal = this.learnings;
-          break;
-        case 'confused':
-          dataIndex = this.dataService.confusedIndex;
-          systemPrompt = "Eres un asistente de análisis educativo. Tu tarea es leer las respuestas de los estudiantes sobre los puntos más confusos de la clase y generar un resumen conciso, identificando los 3 a 5 temas principales que causaron confusión. Prioriza las áreas de refuerzo más urgentes. Formatea el resultado usando Markdown con una lista numerada.";
-          stateSignal = this.confused;
-          break;
-        case 'questions':
-          dataIndex = this.dataService.questionIndex;
-          systemPrompt = "Eres un asistente educativo. Tu tarea es leer las preguntas de los estudiantes para la siguiente clase y generar un resumen conciso, agrupando las 3 a 5 preguntas o temas más solicitados para abordar al inicio de la próxima sesión. Formatea el resultado usando Markdown con una lista numerada.";
-          stateSignal = this.questions;
-          break;
-        case 'suggestions':
-          dataIndex = this.dataService.suggestionIndex;
-          systemPrompt = "Eres un analista de feedback. Tu tarea es leer las sugerencias de los estudiantes sobre cómo el docente puede ayudarlos a comprender mejor el tema y generar un resumen conciso de las 3 a 5 peticiones principales (ej: 'más ejemplos prácticos', 'más tiempo de laboratorio'). Formatea el resultado usando Markdown con una lista numerada.";
-          stateSignal = this.suggestions;
-          break;
+      const role = SUMMARY_DEFINITIONS[type].role;
+      const stateSignal = this.aiPanels[type];
+      if (!this.dataService.isMapped(role)) {
+        stateSignal.set({ loading: false, content: `<p class="text-gray-500 font-semibold text-sm">Asigna una columna a este tipo de respuesta en "Columnas" para habilitar el resumen.</p>` });
+        return;
       }
-      
-      responses = data.map(d => d[dataIndex]?.trim()).filter(text => text && text !== '.' && !['no', 'ninguna', 'ninguno', 'nada'].includes(text.toLowerCase()));
-      if (!responses.length) {
+
+      const prompt = this.promptLibraryService.active(type);
+      const sheetRows = this.loadedSheet?.rows.length;
+      const request = this.summaryRequest(type, prompt);
+      this.summaryInputStats.update(all => ({ ...all, [type]: request.stats }));
+      if (!request.chunks.length) {
         stateSignal.set({ loading: false, content: `<p class="text-gray-500 font-semibold text-sm">Los estudiantes no proporcionaron respuestas significativas en este filtro.</p>` });
         return;
       }
-      
-      const userQuery = `Contexto: Materia: ${this.selectedMateria() || 'Todas'}. Respuestas a analizar:\n\n${responses.join('\n---\n')}`;
-      this.callGemini(userQuery, systemPrompt, stateSignal);
+      if (request.chunks.length === 1) {
+        this.callLlm(request.chunks[0].userQuery, request.chunks[0].systemPrompt, stateSignal, { jsonSchema: SUMMARY_JSON_SCHEMA, prompt, forceRefresh, sheetRows });
+        return;
+      }
+
+      // Too many answers for one request: summarize each block, then merge the partial themes
+      const partials = await this.summarizeChunks(stateSignal, request.chunks, forceRefresh);
+      if (!partials) return;
+      const merge = request.reduce(partials);
+      this.callLlm(merge.userQuery, merge.systemPrompt, stateSignal, { jsonSchema: SUMMARY_JSON_SCHEMA, prompt, forceRefresh, sheetRows });
   }
 
-  async generateLessonPlan() {
+  // Keep the sheet row next to each answer so quotes can be traced back to the student
+  private summaryRequest(type: SummaryType, prompt: PromptVersion): SummaryRequest {
+    const role = SUMMARY_DEFINITIONS[type].role;
+    return buildSummaryRequest(
+      type,
+      this.filteredData().map(d => ({ row: d.rowNumber, text: String(this.dataService.value(d, role) ?? '') })),
+      this.selectedMateria(),
+      this.preprocessingService.settings(),
+      {
+        aggregate: this.privacyService.settings().aggregatesOnly ? answers => this.aggregatedAnswers(answers) : undefined,
+        prompt,
+      },
+    );
+  }
+
+  // Map step of a chunked summary; null when it was stopped or failed
+  private async summarizeChunks(stateSignal: WritableSignal<AiContentState>, chunks: SummaryPrompt[], forceRefresh: boolean): Promise<string[] | null> {
+    this.abortGeneration(stateSignal, 'reset');
+    const controller = new AbortController();
+    this.generationControllers.set(stateSignal, controller);
+    const partials: string[] = [];
+    try {
+      for (const [i, chunk] of chunks.entries()) {
+        controller.signal.throwIfAborted();
+        stateSignal.set({ loading: true, content: `<p class="text-gray-500 italic text-sm animate-pulse">Resumiendo bloque ${i + 1} de ${chunks.length}...</p>`, raw: null });
+        const text = await this.llmService.generateContent(chunk.userQuery, chunk.systemPrompt, { signal: controller.signal, jsonSchema: SUMMARY_JSON_SCHEMA, forceRefresh, materia: this.appliedSelectedMateria() });
+        partials.push(partialSummary(text));
+      }
+      return partials;
+    } catch (error: any) {
+      if (controller.signal.reason === 'reset') return null;
+      stateSignal.set(controller.signal.aborted
+        ? { loading: false, content: null, raw: null }
+        : { loading: false, content: `<p class="text-red-600 font-semibold">Error: ${escapeHtml(String(error?.message ?? error))}</p>`, raw: null });
+      return null;
+    } finally {
+      if (this.generationControllers.get(stateSignal) === controller) {
+        this.generationControllers.delete(stateSignal);
+      }
+    }
+  }
+
+  async generateLessonPlan(forceRefresh = false) {
     this.modalErrorMessage.set(null);
-    const confusedText = this.confused().content || 'No hay puntos confusos destacados por la IA (Genera el resumen de confusión si es necesario)';
-    const questionsText = this.questions().content || 'No hay preguntas pendientes destacadas por la IA (Genera el resumen de preguntas si es necesario)';
-    
+    const template = this.selectedTemplate();
+    const templateFields = this.modalTemplateFields();
+
     const requiredFields = [this.modalNextTopic(), this.modalNumStudents(), this.modalClassDuration(), this.modalMateriaOutcome(), this.modalUnitOutcome()];
-    if(requiredFields.some(field => !field)) {
+    const missingTemplateField = template.fields.some(field => field.required && !templateFields[field.id]?.trim());
+    if(requiredFields.some(field => !field) || missingTemplateField) {
       this.modalErrorMessage.set('Por favor, rellena todos los campos requeridos (*).');
       return;
     }
     this.isModalVisible.set(false);
 
-    const systemPrompt = `Eres un diseñador instruccional experto. Crea un plan de clase híbrido y estructurado para una clase de ${this.modalClassDuration()} minutos. El objetivo es: 1) Reforzar los 'Puntos Confusos' y responder las 'Preguntas Pendientes' de la clase anterior, y 2) Introducir el nuevo tema: "${this.modalNextTopic()}". El plan debe ser profesional y práctico. Estructura el resultado usando Markdown con estos 4 pasos principales, ajustando los tiempos para sumar ${this.modalClassDuration()} minutos: ### 1. Inicio y Revisión, ### 2. Desarrollo del Nuevo Tema, ### 3. Actividad de Aplicación y Preguntas, ### 4. Cierre y Próximos Pasos.`;
-    const userQuery = `**Materia:** ${this.selectedMateria()}. **Estudiantes:** ${this.modalNumStudents()}.
-    **Nuevo Tema:** ${this.modalNextTopic()}
-    **Resultados de Aprendizaje:**
-    - Materia: ${this.modalMateriaOutcome()}
-    - Unidad: ${this.modalUnitOutcome()}
-    - Producto de la Clase (Opcional): ${this.modalClassProduct() || 'Ninguno'}
-    **Feedback de Estudiantes a Abordar:**
-    1. Puntos Confusos: ${confusedText}
-    2. Preguntas Pendientes: ${questionsText}
-    **Instrucción Final:** Genera un plan de clase detallado en 4 pasos.`;
-    
-    this.callGemini(userQuery, systemPrompt, this.lessonPlan);
+    const prompt = this.promptLibraryService.active('lessonPlan');
+    this.runGeneration(this.lessonPlan, this.lessonPlanSteps(prompt), { prompt, forceRefresh });
+  }
+
+  // One step per section of the selected plan template, with the sections written so far as context
+  private lessonPlanSteps(prompt: PromptVersion): GenerationStep[] {
+    const template = this.selectedTemplate();
+    const templateFields = this.modalTemplateFields();
+    const { systemPrompt, userQuery: context } = renderPrompt(prompt, {
+      templateInstructions: template.systemPrompt,
+      materia: this.selectedMateria(),
+      topic: this.modalNextTopic(),
+      duration: this.modalClassDuration(),
+      students: this.modalNumStudents(),
+      materiaOutcome: this.modalMateriaOutcome(),
+      unitOutcome: this.modalUnitOutcome(),
+      classProduct: this.modalClassProduct() || 'Ninguno',
+      extraFields: template.fields
+        .filter(field => templateFields[field.id]?.trim())
+        .map(field => `\n**${field.label}:** ${templateFields[field.id]}`)
+        .join(''),
+      confusedSummary: this.summaryText(this.confused()) || 'No hay puntos confusos destacados por la IA (Genera el resumen de confusión si es necesario)',
+      questionsSummary: this.summaryText(this.questions()) || 'No hay preguntas pendientes destacadas por la IA (Genera el resumen de preguntas si es necesario)',
+      planStructure: template.sections.map(section => section.title).join('; '),
+    });
+    return template.sections.map(section => ({
+      heading: section.title,
+      prompt: generatedSoFar => ({
+        systemPrompt,
+        userQuery: `${context}\n\n${generatedSoFar ? `**Secciones ya redactadas:**\n\n${generatedSoFar}\n\n` : ''}**Instrucción Final:** ${sectionInstruction(section)}`,
+      }),
+    }));
   }
 
-  generateStudentGuide() {
-    const plan = this.lessonPlan().content;
+  // Free-text answers in the current filter that look like attempts to steer the model
+  suspiciousResponses = computed(() => {
+    const textRoles = COLUMN_ROLES.filter(def => ['learning', 'confusion', 'question', 'suggestion'].includes(def.role) && this.dataService.isMapped(def.role));
+    return this.filteredData().flatMap(row => textRoles.flatMap(def => {
+      const text = String(this.dataService.value(row, def.role) ?? '').trim();
+      const reason = text ? detectInjection(text) : null;
+      return reason ? [{ row: row.rowNumber, email: row['Email Address'], field: def.label, text, reason }] : [];
+    }));
+  });
+
+  // Students of the current filter split by comprehension, one guide version per group
+  guideGroups = computed(() => groupStudentsForGuides(this.filteredData(), (row, role) => this.dataService.value(row, role), this.dataService.scales(), this.preprocessingService.settings().lexicon, email => this.rosterService.nameFor(email)));
+
+  generateStudentGuide(forceRefresh = false) {
+    const plan = this.lessonPlan().raw;
     if (!plan || this.lessonPlan().loading) return;
 
-    const systemPrompt = `Eres un coach de estudio. Tu tarea es tomar un Plan de Clase y transformarlo en una Guía de Estudio y Refuerzo concisa y motivadora para los estudiantes. El tono debe ser alentador, directo y orientado a la acción. Estructura el resultado usando Markdown con 3 secciones principales: ### 1. Nuestro Objetivo de Refuerzo, ### 2. Pasos Clave de Refuerzo, ### 3. Checklist de Preparación.`;
-    const userQuery = `**Materia:** ${this.selectedMateria()}. **Plan de Clase a transformar:**\n\n${plan}\n\n**Instrucción Final:** Genera la Guía de Estudio para un estudiante basada en el plan de clase proporcionado.`;
+    const prompt = this.promptLibraryService.active('studentGuide');
+    this.runGeneration(this.studentGuide, this.studentGuideSteps(plan, prompt), { prompt, forceRefresh });
+  }
+
+  // One step per comprehension group with students, each based on that group's own confusions
+  private studentGuideSteps(plan: string, prompt: PromptVersion): GenerationStep[] {
+    return this.guideGroups().filter(group => group.recipients.length).map(({ version, recipients, confusions }) => {
+      const { systemPrompt, userQuery } = renderPrompt(prompt, {
+        materia: this.selectedMateria(),
+        group: version.group,
+        groupSize: String(recipients.length),
+        groupFocus: version.prompt,
+        guideTitle: version.title.toLowerCase(),
+        confusedSummary: this.groupConfusionLines(confusions).join('\n') || 'El grupo no registró puntos confusos; básate en el plan de clase.',
+        lessonPlan: plan,
+      }, UNTRUSTED_DATA_INSTRUCTION);
+      return {
+        heading: `${version.title} (${version.group})`,
+        headingLevel: 2,
+        prompt: () => ({ systemPrompt, userQuery }),
+      };
+    });
+  }
+
+  generateAssessment(forceRefresh = false) {
+    const plan = this.lessonPlan().raw;
+    if (!plan || this.lessonPlan().loading) return;
+    const confusedText = this.summaryText(this.confused()) || 'No hay puntos confusos destacados por la IA.';
+    const questionsText = this.summaryText(this.questions()) || 'No hay preguntas pendientes destacadas por la IA.';
+
+    const systemPrompt = `Eres un experto en evaluación formativa. Diseña una evaluación breve que verifique si los estudiantes superaron los puntos confusos y resolvieron sus preguntas pendientes, alineada con el plan de clase. ${ASSESSMENT_JSON_INSTRUCTION}`;
+    const userQuery = `**Materia:** ${this.selectedMateria()}.
+**Tema:** ${this.modalNextTopic() || 'El del plan de clase'}
+**Puntos Confusos:** ${confusedText}
+**Preguntas Pendientes:** ${questionsText}
+**Plan de Clase:**
+
+${plan}
+
+**Instrucción Final:** Genera la evaluación formativa con su clave y rúbrica, y la orientación del próximo ticket de salida.`;
+
+    this.callLlm(userQuery, systemPrompt, this.assessment, { jsonSchema: ASSESSMENT_JSON_SCHEMA, forceRefresh });
+  }
+
+  // Asks the model again for a panel whose content came from the response cache
+  regenerate(kind: GenerationKind) {
+    switch (kind) {
+      case 'lessonPlan': return this.generateLessonPlan(true);
+      case 'studentGuide': return this.generateStudentGuide(true);
+      case 'assessment': return this.generateAssessment(true);
+      default: return this.generateSummary(kind, true);
+    }
+  }
+
+  // First request a prompt version would send with the current data and plan form, before redaction
+  readonly previewPrompt = (kind: PromptKind, prompt: PromptVersion): SummaryPrompt | null => {
+    switch (kind) {
+      case 'lessonPlan':
+        return this.lessonPlanSteps(prompt)[0]?.prompt('') ?? null;
+      case 'studentGuide':
+        return this.studentGuideSteps(this.lessonPlan().raw || '(Aquí va el plan de clase generado)', prompt)[0]?.prompt('') ?? null;
+      default:
+        return this.summaryRequest(kind, prompt).chunks[0] ?? null;
+    }
+  };
+
+  parsedAssessment = computed(() => this.assessment().loading ? null : parseAssessment(this.assessment().raw));
+
+  assessmentError = computed(() => {
+    const state = this.assessment();
+    if (state.loading || !state.content) return null;
+    if (!state.raw) return htmlToText(state.content);
+    return this.parsedAssessment() ? null : 'La respuesta del modelo no tiene el formato esperado. Vuelve a generar la evaluación.';
+  });
+
+  private callLlm(userQuery: string, systemPrompt: string, stateSignal: WritableSignal<AiContentState>, options: GenerationOptions = {}) {
+    return this.runGeneration(stateSignal, [{ prompt: () => ({ userQuery, systemPrompt }) }], options);
+  }
+
+  private async runGeneration(stateSignal: WritableSignal<AiContentState>, steps: GenerationStep[], { jsonSchema, prompt, forceRefresh, sheetRows = this.loadedSheet?.rows.length }: GenerationOptions = {}) {
+    this.abortGeneration(stateSignal, 'reset');
+    const controller = new AbortController();
+    this.generationControllers.set(stateSignal, controller);
+    stateSignal.set({ loading: true, content: null, raw: null });
+
+    let text = '';
+    let cachedSteps = 0;
+    try {
+      for (const step of steps) {
+        if (controller.signal.aborted) break;
+        const { userQuery, systemPrompt } = step.prompt(text.trim());
+        if (step.heading) text += `${text ? '\n\n' : ''}${'#'.repeat(step.headingLevel ?? 3)} ${step.heading}\n\n`;
+        const stream = this.llmService.generateContentStream(userQuery, systemPrompt, {
+          signal: controller.signal,
+          jsonSchema,
+          forceRefresh,
+          materia: this.appliedSelectedMateria(),
+          onCached: () => cachedSteps++,
+        });
+        for await (const chunk of stream) {
+          if (controller.signal.aborted) break;
+          text += chunk;
+          // Re-render the accumulated markdown so the panel fills in as tokens arrive.
+          // Partial JSON is not readable, so structured requests only report progress.
+          const content = jsonSchema
+            ? `<p class="text-gray-500 italic text-sm animate-pulse">Generando temas... (${text.length} caracteres recibidos)</p>`
+            : renderMarkdown(text);
+          stateSignal.set({ loading: true, content, raw: text });
+        }
+      }
+      text = text.trim();
+      if (controller.signal.reason !== 'reset') {
+        const state = { ...this.finalContentState(text, !!jsonSchema && !controller.signal.aborted), cached: steps.length > 0 && cachedSteps === steps.length, sheetRows };
+        stateSignal.set(state);
+        if (!controller.signal.aborted && text) this.recordGeneration(stateSignal, state, prompt);
+      }
+    } catch (error: any) {
+      if (controller.signal.reason === 'reset') return;
+      if (controller.signal.aborted) {
+        // Stopped by the teacher: keep whatever was generated so far
+        stateSignal.set({ ...this.finalContentState(text.trim(), false), sheetRows });
+      } else {
+        stateSignal.set({ loading: false, content: `<p class="text-red-600 font-semibold">Error: ${escapeHtml(String(error?.message ?? error))}</p>`, raw: null });
+      }
+    } finally {
+      if (this.generationControllers.get(stateSignal) === controller) {
+        this.generationControllers.delete(stateSignal);
+      }
+    }
+  }
 
-    this.callGemini(userQuery, systemPrompt, this.studentGuide);
+  // Applies an edit to the panel and saves it as a new version of its history entry
+  async updateGeneratedContent(stateSignal: WritableSignal<AiContentState>, markdown: string, label = 'Edición manual') {
+    const state = stateSignal();
+    stateSignal.set({ ...state, raw: markdown, content: renderMarkdown(markdown) });
+    if (state.recordId) {
+      try {
+        await this.historyService.addVersion(state.recordId, label, markdown);
+      } catch (error) {
+        console.error("Could not save the new version:", error);
+      }
+    }
+    this.saveSession();
   }
 
-  private async callGemini(userQuery: string, systemPrompt: string, stateSignal: WritableSignal<any>) {
-    stateSignal.set({ loading: true, content: null });
+  // --- Section Revision ---
+  versions = computed<Record<ExportableKind, ContentVersion[]>>(() => {
+    const records = this.historyService.records();
+    const versionsOf = (kind: ExportableKind) => {
+      const recordId = this.aiPanels[kind]().recordId;
+      const record = recordId ? records.find(r => r.id === recordId) : undefined;
+      return record ? this.historyService.versions(record) : [];
+    };
+    return { lessonPlan: versionsOf('lessonPlan'), studentGuide: versionsOf('studentGuide') };
+  });
+
+  restoreVersion(kind: ExportableKind, event: Event) {
+    const select = event.target as HTMLSelectElement;
+    const version = this.versions()[kind].find(v => v.id === select.value);
+    select.value = '';
+    if (version) this.updateGeneratedContent(this.aiPanels[kind], version.raw, `Restaurada: ${version.label}`);
+  }
+
+  // Sends only the targeted section plus context and replaces it with the model's revision
+  async reviseSection(kind: ExportableKind, request: SectionRevisionRequest) {
+    const stateSignal = this.aiPanels[kind];
+    const section = splitMarkdownSections(stateSignal().raw ?? '')[request.index];
+    if (!section || this.revisingSection()) return;
+
+    const { systemPrompt, userQuery } = sectionRevisionPrompt(request, section, {
+      documentLabel: GENERATION_KIND_LABELS[kind],
+      materia: this.appliedSelectedMateria(),
+      classDuration: this.modalClassDuration(),
+      outline: splitMarkdownSections(stateSignal().raw ?? '').map(s => s.title),
+      priorityNotes: this.priorityNotes(),
+    });
+
+    this.abortGeneration(stateSignal, 'reset');
+    const controller = new AbortController();
+    this.generationControllers.set(stateSignal, controller);
+    this.revisingSection.set({ kind, index: request.index });
     try {
-      const result = await this.geminiService.generateContent(userQuery, systemPrompt);
-      stateSignal.set({ loading: false, content: marked.parse(result) });
+      const body = (await this.llmService.generateContent(userQuery, systemPrompt, { signal: controller.signal, materia: this.appliedSelectedMateria() })).trim();
+      if (controller.signal.aborted || !body) return;
+      // Skip the revision if the teacher changed that section in the meantime
+      const sections = splitMarkdownSections(stateSignal().raw ?? '');
+      if (sections[request.index]?.body !== section.body) return;
+      sections[request.index] = { ...section, body };
+      await this.updateGeneratedContent(stateSignal, joinMarkdownSections(sections), `${SECTION_ACTION_LABELS[request.action]}: ${section.title || 'Introducción'}`);
     } catch (error: any) {
-      stateSignal.set({ loading: false, content: `<p class="text-red-600 font-semibold">Error: ${error.message}</p>` });
+      if (!controller.signal.aborted) this.errorMessage.set(`No se pudo revisar la sección. ${error.message}`);
+    } finally {
+      if (this.generationControllers.get(stateSignal) === controller) {
+        this.generationControllers.delete(stateSignal);
+      }
+      this.revisingSection.set(null);
+    }
+  }
+
+  // Word counts instead of answers for aggregates-only mode; student names never appear as keywords
+  private aggregatedAnswers(answers: string[]): string[] {
+    const lines = aggregateAnswers(answers, this.privacyService.knownNames());
+    return lines.length ? lines : ['- Ninguna palabra se repite en al menos dos respuestas.'];
+  }
+
+  private groupConfusionLines(confusions: { row: number, text: string }[]): string[] {
+    if (!confusions.length) return [];
+    if (this.privacyService.settings().aggregatesOnly) return [untrustedBlock(this.aggregatedAnswers(confusions.map(c => c.text)))];
+    return [untrustedBlock(confusions.map(c => `[${c.row}] ${c.text}`))];
+  }
+
+  // Difficulties of flagged students in the current filter, without names or emails
+  private priorityNotes(): string[] {
+    const inFilter = new Set(this.filteredData());
+    const reasonsOnly = this.privacyService.settings().aggregatesOnly;
+    return this.studentProfiles().flatMap(profile => {
+      const flagged = profile.tickets.filter(t => t.flag && inFilter.has(t.row));
+      const latest = flagged[flagged.length - 1];
+      if (!latest) return [];
+      const confusion = this.dataService.value(latest.row, 'confusion')?.trim();
+      return [confusion && !reasonsOnly ? `${latest.flag!.reason}: "${confusion}"` : latest.flag!.reason];
+    });
+  }
+
+  // Structured responses render as a theme table; anything that fails validation falls back to Markdown
+  private finalContentState(text: string, structured: boolean, themes: SummaryTheme[] | null = null, recordId: string | null = null): AiContentState {
+    themes = themes ?? (structured ? parseStructuredSummary(text) : null);
+    if (themes) {
+      return { loading: false, content: renderMarkdown(themesToMarkdown(themes)), raw: text, themes, recordId };
+    }
+    return { loading: false, content: text ? renderMarkdown(text) : null, raw: text || null, themes: null, recordId };
+  }
+
+  private async recordGeneration(stateSignal: WritableSignal<AiContentState>, state: AiContentState, prompt?: PromptVersion) {
+    const kind = (Object.keys(this.aiPanels) as GenerationKind[]).find(k => this.aiPanels[k] === stateSignal)!;
+    const isLessonArtifact = kind === 'lessonPlan' || kind === 'studentGuide' || kind === 'assessment';
+    const provider = this.llmService.provider();
+    try {
+      const record = await this.historyService.add({
+        kind,
+        title: isLessonArtifact && this.modalNextTopic() ? this.modalNextTopic() : GENERATION_KIND_LABELS[kind],
+        materia: this.appliedSelectedMateria(),
+        paralelo: this.appliedSelectedParalelo(),
+        filters: this.currentFilters(),
+        lessonInputs: isLessonArtifact ? this.lessonInputs() : null,
+        provider: provider?.id ?? '',
+        model: provider?.model ?? '',
+        raw: state.raw ?? '',
+        themes: state.themes ?? null,
+        promptVersion: prompt ? { id: prompt.id, name: prompt.name } : undefined,
+      });
+      // Only link the record if the panel still shows this generation
+      if (stateSignal() === state) stateSignal.set({ ...state, recordId: record.id });
+    } catch (error) {
+      console.error("Could not save the generation to history:", error);
     }
+    this.saveSession();
+  }
+
+  private lessonInputs(): LessonPlanInputs {
+    return {
+      nextTopic: this.modalNextTopic(),
+      numStudents: this.modalNumStudents(),
+      classDuration: this.modalClassDuration(),
+      materiaOutcome: this.modalMateriaOutcome(),
+      unitOutcome: this.modalUnitOutcome(),
+      classProduct: this.modalClassProduct(),
+      templateId: this.selectedTemplate().id,
+      templateFields: this.modalTemplateFields(),
+    };
+  }
+
+  // --- History ---
+  openHistoryRecord(record: GenerationRecord) {
+    const filters = this.currentFilters();
+    const sameFilters = (Object.keys(filters) as (keyof FilterState)[]).every(key => filters[key] === record.filters[key]);
+    if (!sameFilters) {
+      // Panels always describe the applied filters, so switching filters clears them
+      this.setFilters(record.filters);
+      this.resetAISummaries();
+      this.resetLessonPlan();
+    }
+    if (record.lessonInputs) {
+      this.modalNextTopic.set(record.lessonInputs.nextTopic);
+      this.modalNumStudents.set(record.lessonInputs.numStudents);
+      this.modalClassDuration.set(record.lessonInputs.classDuration);
+      this.modalMateriaOutcome.set(record.lessonInputs.materiaOutcome);
+      this.modalUnitOutcome.set(record.lessonInputs.unitOutcome);
+      this.modalClassProduct.set(record.lessonInputs.classProduct);
+      if (record.lessonInputs.templateId) this.modalTemplateId.set(record.lessonInputs.templateId);
+      this.modalTemplateFields.set(record.lessonInputs.templateFields ?? {});
+    }
+    this.abortGeneration(this.aiPanels[record.kind], 'reset');
+    this.aiPanels[record.kind].set(this.finalContentState(record.raw, false, record.themes, record.id));
+    this.isHistoryVisible.set(false);
+    this.saveSession();
+  }
+
+  // Plain-text version of a summary for use inside other prompts
+  private summaryText(state: AiContentState): string | null {
+    if (state.themes) return themesToMarkdown(state.themes);
+    return state.raw ?? state.content;
+  }
+
+  stopGeneration(stateSignal: WritableSignal<AiContentState>) {
+    this.abortGeneration(stateSignal, 'stop');
+  }
+
+  // 'reset' discards the partial output, 'stop' keeps it
+  private abortGeneration(stateSignal: WritableSignal<AiContentState>, reason: 'stop' | 'reset') {
+    this.generationControllers.get(stateSignal)?.abort(reason);
+    this.generationControllers.delete(stateSignal);
   }
 
   // --- UI Toggles ---
   togglePriorityList() { this.isPriorityListVisible.update(v => !v); }
   toggleRawData() { this.isRawDataVisible.update(v => !v); }
+  toggleHistory() { this.isHistoryVisible.update(v => !v); }
+  toggleLlmSettings() { this.isLlmSettingsVisible.update(v => !v); }
   openModal() { this.isModalVisible.set(true); }
   closeModal() { this.isModalVisible.set(false); }
 
-  // --- PDF Export ---
-  exportToPDF(elementId: string, filename: string) {
+  onTemplateFieldInput(event: Event, fieldId: string) {
+    const value = (event.target as HTMLInputElement).value;
+    this.modalTemplateFields.update(fields => ({ ...fields, [fieldId]: value }));
+  }
+
+  // --- Document Export ---
+  // Header block printed above the plan and guide; uses the saved generation's context when available
+  exportHeaders = computed<Record<ExportableKind, ExportHeader>>(() => {
+    const header = (kind: ExportableKind): ExportHeader => {
+      const recordId = this.aiPanels[kind]().recordId;
+      const record = recordId ? this.historyService.records().find(r => r.id === recordId) : undefined;
+      const inputs = record?.lessonInputs ?? this.lessonInputs();
+      return {
+        title: GENERATION_KIND_LABELS[kind],
+        materia: record?.materia ?? this.appliedSelectedMateria(),
+        paralelo: record?.paralelo ?? this.appliedSelectedParalelo(),
+        date: record ? new Date(record.createdAt) : new Date(),
+        duration: inputs.classDuration,
+        materiaOutcome: inputs.materiaOutcome,
+        unitOutcome: inputs.unitOutcome,
+      };
+    };
+    return { lessonPlan: header('lessonPlan'), studentGuide: header('studentGuide') };
+  });
+
+  async exportDocument(kind: ExportableKind, format: 'docx' | 'pdf') {
+    const markdown = this.aiPanels[kind]().raw;
+    if (!markdown) return;
+    const header = this.exportHeaders()[kind];
+    const filename = `${EXPORT_FILENAMES[kind]}_${new Date().toISOString().slice(0, 10)}.${format}`;
+    try {
+      const blob = format === 'docx' ? await buildDocx(header, markdown) : buildPdf(header, markdown);
+      downloadBlob(blob, filename);
+    } catch (e) {
+      console.error(e);
+      this.errorMessage.set(`No se pudo exportar el documento. ${(e as Error).message}`);
+    }
+  }
+
+  // The print stylesheet hides everything except the element marked as the print target
+  printDocument(elementId: string) {
     const element = document.getElementById(elementId);
     if (!element) return;
-    
-    const clone = element.cloneNode(true) as HTMLElement;
-    clone.style.padding = '30px';
-    clone.style.backgroundColor = '#ffffff';
-
-    html2pdf().from(clone).set({
-      margin: 1,
-      filename: `${filename}_${new Date().toISOString().slice(0, 10)}.pdf`,
-      image: { type: 'jpeg', quality: 0.98 },
-      html2canvas: { scale: 2, logging: true, dpi: 192, letterRendering: true },
-      jsPDF: { unit: 'in', format: 'letter', orientation: 'portrait' }
-    }).save();
+    element.classList.add('print-target');
+    document.body.classList.add('printing');
+    window.addEventListener('afterprint', () => {
+      element.classList.remove('print-target');
+      document.body.classList.remove('printing');
+    }, { once: true });
+    window.print();
   }
 
   // --- Priority Student List ---
-  priorityStudents = computed<PriorityStudent[]>(() => {
-    const comprehensionPriorityValue = "No entendí casi nada. - Me siento bastante perdido/a.";
-    const comprehensionLabels: { [key: string]: string } = {
-        "¡Entendido! - Lo domino y podría explicarlo.": "Dominado",
-        "Más o menos. - Entendí la idea general, pero tengo dudas.": "Dudas/Idea General",
-        "No entendí casi nada. - Me siento bastante perdido/a.": "Perdido/a",
-    };
+  // Full history of every student in the applied Materia/Paralelo, ignoring the date range
+  studentProfiles = computed<StudentProfile[]>(() => {
+    const materia = this.appliedSelectedMateria();
+    const paralelo = this.appliedSelectedParalelo();
+    return buildStudentProfiles(filterByClass(this.allData(), materia, paralelo), (row, role) => this.dataService.value(row, role), this.dataService.scales(), row => this.flagTicket(row), email => this.rosterService.nameFor(email), this.scopedRoster())
+      .sort((a, b) => b.riskScore - a.riskScore || a.name.localeCompare(b.name));
+  });
 
-    return this.filteredData()
-      .filter(d => {
-        const score = parseInt(d[this.dataService.scoreIndex]);
-        return (!isNaN(score) && score <= 7) || d[this.dataService.comprehensionIndex]?.trim() === comprehensionPriorityValue;
-      })
-      .map(d => {
-        const score = parseInt(d[this.dataService.scoreIndex]);
-        const lowScore = !isNaN(score) && score <= 7;
-        const lowComprehension = d[this.dataService.comprehensionIndex]?.trim() === comprehensionPriorityValue;
-        
-        let reason = '';
-        if (lowComprehension && lowScore) {
-            reason = `Comprensión Baja y Satisfacción Baja (${score}/10)`;
-        } else if (lowComprehension) {
-            reason = `Comprensión Baja: ${comprehensionLabels[d[this.dataService.comprehensionIndex]?.trim()] || 'N/A'}`;
-        } else if (lowScore) {
-            reason = `Satisfacción Baja (${score}/10)`;
-        }
+  // Roster entries of the applied Materia/Paralelo
+  private scopedRoster = computed(() => rosterForClass(this.rosterService.students(), this.appliedSelectedMateria(), this.appliedSelectedParalelo()));
 
-        return {
-          name: d['Email Address']?.split('@')[0].replace(/\./g, ' ').toUpperCase() || 'Desconocido',
-          materia: d.Materia,
-          paralelo: d.Paralelo,
-          fecha: d.Timestamp.toLocaleDateString('es-ES'),
-          razon: reason,
-          badgeColor: (lowComprehension && lowScore) ? 'bg-red-700' : (lowComprehension ? 'bg-red-500' : 'bg-yellow-600')
-        };
-      });
+  // One entry per student with a flagged ticket in the current filter or who stopped answering, ranked by risk
+  priorityStudents = computed<PriorityStudent[]>(() => {
+    const { nonRespondents } = rosterAttendance(this.scopedRoster(), this.filteredData(), this.rosterService.minMissed());
+    return buildPriorityStudents(this.studentProfiles(), this.filteredData(), nonRespondents);
   });
-  
+
+  selectedStudent = computed(() => {
+    const email = this.selectedStudentEmail();
+    return email ? this.studentProfiles().find(p => p.email === email) ?? null : null;
+  });
+
+  openStudentProfile(email: string) { this.selectedStudentEmail.set(email); }
+
+  onStudentSelect(event: Event) {
+    const email = (event.target as HTMLSelectElement).value;
+    if (email) this.openStudentProfile(email);
+    (event.target as HTMLSelectElement).value = '';
+  }
+
+  private flagTicket(row: TicketData): TicketFlag | null {
+    return flagTicketWithRules(this.priorityRulesService.rules(), row, (r, role) => this.dataService.value(r, role), this.dataService.scales());
+  }
+
+  exportPriorityStudents() {
+    const rows = this.priorityStudents().map(student => ({
+      'Nombre': student.name,
+      'Email': student.email,
+      'Materia': student.materia,
+      'Paralelo': student.paralelo,
+      'Última Fecha': student.fecha,
+      'Riesgo (0-100)': student.riskScore,
+      'Motivo': student.razon,
+      'Severidad': RULE_SEVERITY_LABELS[student.severity as RuleSeverity],
+      'Reglas Cumplidas': student.matchedRules.join('; '),
+    }));
+    downloadBlob(new Blob([Papa.unparse(rows)], { type: 'text/csv;charset=utf-8' }), `Atencion_Prioritaria_${new Date().toISOString().slice(0, 10)}.csv`);
+  }
+
   formatCell(value: any): string {
     if (value instanceof Date) {
       return value.toLocaleDateString('es-ES');
@@ -388,35 +1206,10 @@ export class AppComponent {
     const engChartEl = this.engagementChart()!.nativeElement;
     const scoreChartEl = this.scoreChart()!.nativeElement;
     
-    const comprehensionLabels = {
-        "¡Entendido! - Lo domino y podría explicarlo.": "¡Dominado!",
-        "Más o menos. - Entendí la idea general, pero tengo dudas.": "Dudas/Idea General",
-        "No entendí casi nada. - Me siento bastante perdido/a.": "Perdido/a",
-    };
-    const engagementLabels = {
-        "Muy Comprometido/a: Me esforcé al máximo.": "Máximo Esfuerzo",
-        "Comprometido/a: Sé que podría haberme esforzado un poco más.": "Podría Esforzarme Más",
-        "Poco Comprometido/a: Podría haberme esforzado mucho más.": "Esfuerzo Bajo",
-    };
-
-    // --- Process data for charts ---
-    const comprehensionData = this.groupData(data, this.dataService.comprehensionIndex, comprehensionLabels);
-    const engagementData = this.groupData(data, this.dataService.engagementIndex, engagementLabels);
-    const scoreData = Array.from(d3.rollup(data, (v: any[]) => v.length, (d: TicketData) => parseInt(d[this.dataService.scoreIndex])))
-        .map(([category, count]) => ({ category: category.toString(), count }))
-        .filter(d => !isNaN(parseInt(d.category)))
-        .sort((a, b) => parseInt(a.category) - parseInt(b.category));
-    
-    // --- Draw charts ---
-    this.drawPieChart(compChartEl, comprehensionData);
-    this.drawPieChart(engChartEl, engagementData);
-    this.drawBarChart(scoreChartEl, scoreData);
-  }
-
-  private groupData(data: TicketData[], key: string, labels: { [key: string]: string }): { category: string, count: number }[] {
-    return Array.from(d3.rollup(data, (v: any[]) => v.length, (d: TicketData) => labels[d[key]?.trim()] || d[key]?.trim()))
-      .map(([category, count]) => ({ category, count }))
-      .filter(d => d.category);
+    const counts = chartData(data, (row, role) => this.dataService.value(row, role));
+    this.drawPieChart(compChartEl, counts.comprehension);
+    this.drawPieChart(engChartEl, counts.engagement);
+    this.drawBarChart(scoreChartEl, counts.score);
   }
 
   private drawPieChart(element: HTMLElement, data: { category: string, count: number }[]) {
@@ -451,7 +1244,7 @@ export class AppComponent {
       data.forEach(d => {
           const percentage = (d.count / d3.sum(data, (item: any) => item.count)) * 100;
           legendContainer.append("div").attr("class", "legend-item")
-              .html(`<div class="legend-color" style="background-color: ${colorScale(d.category)}"></div><span class="font-normal text-gray-700">${d.category}:</span> <span class="font-semibold text-purple-700">${percentage.toFixed(1)}%</span>`);
+              .html(`<div class="legend-color" style="background-color: ${colorScale(d.category)}"></div><span class="font-normal text-gray-700">${escapeHtml(d.category)}:</span> <span class="font-semibold text-purple-700">${percentage.toFixed(1)}%</span>`);
       });
   }
 
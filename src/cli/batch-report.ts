@@ -0,0 +1,253 @@
+/**
+ * Weekly reports without the dashboard: reads an exported exit-ticket CSV and writes one
+ * report per Materia × Paralelo with the summary cards, chart counts, priority students and
+ * the four AI summaries.
+ *
+ *   npm run report -- --csv respuestas.csv [--config informe.json] [--out informes] [--mock]
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import Papa from 'papaparse';
+import { AnswerScales, COLUMN_ROLES, ColumnMapping, ColumnRole, ParsedSheet } from '../models/column-mapping.model';
+import { DEFAULT_MODELS, LlmProvider, LlmProviderId } from '../models/llm-provider.model';
+import { PreprocessingSettings } from '../models/preprocessing.model';
+import { PriorityRule } from '../models/priority-rule.model';
+import { TicketData } from '../models/ticket-data.model';
+import { GeminiProvider } from '../services/providers/gemini.provider';
+import { OpenAiCompatibleProvider } from '../services/providers/openai-compatible.provider';
+import { MockProvider } from '../services/providers/mock.provider';
+import { autoMatchColumns } from '../utils/column-matching';
+import { DateFormat, detectDateFormat } from '../utils/date-parsing';
+import { DEFAULT_PRIORITY_RULES, flagTicketWithRules, upgradeLegacyConditions } from '../utils/priority-rules';
+import { DEFAULT_PREPROCESSING_SETTINGS, describePreprocessing } from '../utils/response-preprocessing';
+import { Redactor, aggregateAnswers, namesFromEmails } from '../utils/privacy';
+import { SUMMARY_JSON_SCHEMA, parseStructuredSummary } from '../utils/structured-summary';
+import { buildStudentProfiles } from '../utils/student-analytics';
+import { DEFAULT_ANSWER_SCALES, SCALE_ROLES, scaleScore, sessionKey } from '../utils/ticket-scales';
+import { SUMMARY_DEFINITIONS, SUMMARY_TYPES, buildSummaryRequest, runSummaryRequest } from '../utils/summary-requests';
+import { buildPriorityStudents, chartData, classCombinations, filterByClass, filterByDate, mappedValue, summaryCards, toTicketRows } from '../utils/ticket-analytics';
+import { ClassReport, ClassSummary, reportFileName, reportToHtml, reportToJson, reportToMarkdown } from '../utils/batch-report';
+
+type ReportFormat = 'markdown' | 'json' | 'html';
+
+const FORMAT_EXTENSIONS: Record<ReportFormat, string> = { markdown: 'md', json: 'json', html: 'html' };
+const REPORT_RENDERERS: Record<ReportFormat, (report: ClassReport) => string> = { markdown: reportToMarkdown, json: reportToJson, html: reportToHtml };
+
+// Contents of the --config file; every field is optional
+interface BatchReportConfig {
+  outputDir?: string; // Paths are relative to the working directory
+  formats?: ReportFormat[];
+  startDate?: string; // yyyy-mm-dd
+  endDate?: string;
+  lastDays?: number; // Alternative to the dates: the last N days up to today
+  materias?: string[]; // Only report these Materias
+  columns?: Partial<ColumnMapping>; // Headers for roles the automatic match gets wrong
+  scales?: Partial<AnswerScales>; // Score (1-3) of each answer option when the form's wording differs
+  dateFormat?: DateFormat;
+  model?: {
+    // 'module' loads `module`, whose default export must implement generateContent like an LlmProvider
+    provider: LlmProviderId | 'module';
+    model?: string;
+    apiKey?: string; // Defaults to the GEMINI_API_KEY environment variable for Gemini
+    baseUrl?: string;
+    module?: string;
+  };
+  preprocessing?: Partial<PreprocessingSettings>;
+  priorityRules?: PriorityRule[];
+  redact?: boolean; // Replace emails, phones and student names before each call; true by default
+  aggregatesOnly?: boolean; // Send word counts instead of answers
+}
+
+interface CliOptions {
+  csv: string;
+  config: string | null;
+  out: string | null;
+  mock: boolean;
+}
+
+type ReportModel = Pick<LlmProvider, 'generateContent'> & { model: string };
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const config: BatchReportConfig = options.config ? JSON.parse(await readFile(options.config, 'utf8')) : {};
+  const model = options.mock ? new MockProvider() : await createModel(config);
+  const formats = config.formats?.length ? config.formats : (['markdown', 'json', 'html'] as ReportFormat[]);
+  const outputDir = resolve(options.out ?? config.outputDir ?? 'informes');
+
+  const sheet = parseCsv(await readFile(options.csv, 'utf8'));
+  const mapping = resolveMapping(sheet, config.columns);
+  const dateFormat = !config.dateFormat || config.dateFormat === 'auto'
+    ? detectDateFormat(sheet.rows.map(row => row[mapping.timestamp!]))
+    : config.dateFormat;
+  const tickets = toTicketRows(sheet, mapping, dateFormat);
+  const scales = resolveScales(config.scales);
+  const { startDate, endDate } = reportPeriod(config);
+  const inPeriod = filterByDate(tickets, startDate, endDate);
+  const classes = classCombinations(inPeriod).filter(c => !config.materias?.length || config.materias.includes(c.materia));
+  if (!classes.length) {
+    throw new Error('No hay respuestas en el periodo indicado.');
+  }
+
+  const value = (row: TicketData, role: ColumnRole) => mappedValue(row, role, mapping);
+  warnUnscoredAnswers(tickets, value, scales);
+  const rules = upgradeLegacyConditions(config.priorityRules ?? DEFAULT_PRIORITY_RULES);
+  const flag = (row: TicketData) => flagTicketWithRules(rules, row, value, scales);
+  const settings = { ...DEFAULT_PREPROCESSING_SETTINGS, ...config.preprocessing };
+  const knownNames = namesFromEmails(tickets.map(t => t['Email Address']).filter(Boolean));
+
+  await mkdir(outputDir, { recursive: true });
+  for (const { materia, paralelo } of classes) {
+    const rows = filterByClass(inPeriod, materia, paralelo);
+    // Risk uses the class's whole history, as the dashboard does; the list only the period's tickets
+    const profiles = buildStudentProfiles(filterByClass(tickets, materia, paralelo), value, scales, flag)
+      .sort((a, b) => b.riskScore - a.riskScore || a.name.localeCompare(b.name));
+
+    const summaries: ClassSummary[] = [];
+    for (const type of SUMMARY_TYPES) {
+      const { title, role } = SUMMARY_DEFINITIONS[type];
+      if (!mapping[role]) {
+        summaries.push({ type, title, themes: null, text: null, note: 'La hoja no tiene una columna para este tipo de respuesta.', stats: null });
+        continue;
+      }
+      const request = buildSummaryRequest(
+        type,
+        rows.map(row => ({ row: row.rowNumber, text: String(value(row, role) ?? '') })),
+        materia,
+        settings,
+        { aggregate: config.aggregatesOnly ? answers => aggregateAnswers(answers, knownNames) : undefined },
+      );
+      const text = await runSummaryRequest(request, async prompt => {
+        const redactor = config.redact === false ? null : new Redactor(knownNames);
+        const redact = (text: string) => redactor ? redactor.redact(text) : text;
+        const answer = await model.generateContent(redact(prompt.userQuery), redact(prompt.systemPrompt), { jsonSchema: SUMMARY_JSON_SCHEMA });
+        return redactor ? redactor.restore(answer) : answer;
+      });
+      summaries.push({
+        type,
+        title,
+        themes: text ? parseStructuredSummary(text) : null,
+        text,
+        note: text ? describePreprocessing(request.stats) : 'Los estudiantes no proporcionaron respuestas significativas en este periodo.',
+        stats: request.stats,
+      });
+    }
+
+    const report: ClassReport = {
+      materia,
+      paralelo,
+      startDate,
+      endDate,
+      generatedAt: new Date().toISOString(),
+      model: model.model,
+      cards: summaryCards(rows, value, scales),
+      charts: chartData(rows, value),
+      priorityStudents: buildPriorityStudents(profiles, rows),
+      summaries,
+    };
+    for (const format of formats) {
+      const file = join(outputDir, `${reportFileName(report)}.${FORMAT_EXTENSIONS[format]}`);
+      await writeFile(file, REPORT_RENDERERS[format](report), 'utf8');
+    }
+    console.log(`${materia} — ${paralelo}: ${rows.length} ${rows.length === 1 ? 'respuesta' : 'respuestas'}, ${report.priorityStudents.length} en atención prioritaria.`);
+  }
+  console.log(`Informes guardados en ${outputDir}`);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { csv: '', config: null, out: null, mock: false };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--csv': options.csv = args[++i] ?? ''; break;
+      case '--config': options.config = args[++i] ?? null; break;
+      case '--out': options.out = args[++i] ?? null; break;
+      case '--mock': options.mock = true; break;
+      default: throw new Error(`Opción desconocida: ${args[i]}`);
+    }
+  }
+  if (!options.csv) {
+    throw new Error('Uso: npm run report -- --csv <archivo.csv> [--config <config.json>] [--out <carpeta>] [--mock]');
+  }
+  return options;
+}
+
+function parseCsv(csvData: string): ParsedSheet {
+  const results = Papa.parse<Record<string, string>>(csvData, { header: true, skipEmptyLines: true });
+  if (!results.data.length) {
+    throw new Error('La hoja de cálculo está vacía o no tiene datos válidos.');
+  }
+  const headers = results.meta.fields ?? Object.keys(results.data[0]);
+  return { sourceKey: 'cli', headers, rows: results.data };
+}
+
+function resolveMapping(sheet: ParsedSheet, overrides: Partial<ColumnMapping> = {}): ColumnMapping {
+  const mapping = { ...autoMatchColumns(sheet.headers, COLUMN_ROLES), ...overrides };
+  const missing = COLUMN_ROLES.filter(def => def.required && !(mapping[def.role] && sheet.headers.includes(mapping[def.role]!)));
+  if (missing.length) {
+    throw new Error(`Faltan columnas obligatorias: ${missing.map(def => def.label).join(', ')}. Indícalas en "columns" del archivo de configuración.`);
+  }
+  return mapping;
+}
+
+function resolveScales(overrides: Partial<AnswerScales> = {}): AnswerScales {
+  const scales = { ...DEFAULT_ANSWER_SCALES, ...overrides };
+  for (const role of SCALE_ROLES) {
+    const invalid = Object.entries(scales[role]).filter(([, score]) => ![1, 2, 3].includes(score));
+    if (invalid.length) {
+      throw new Error(`Los puntajes de "scales.${role}" deben ser 1, 2 o 3: revisa ${invalid.map(([answer]) => `"${answer}"`).join(', ')}.`);
+    }
+  }
+  return scales;
+}
+
+// Answers without a score count as missing, which would otherwise go unnoticed in the reports
+function warnUnscoredAnswers(tickets: TicketData[], value: (row: TicketData, role: ColumnRole) => any, scales: AnswerScales) {
+  for (const role of SCALE_ROLES) {
+    const unscored = [...new Set(tickets.map(row => String(value(row, role) ?? '').trim()))]
+      .filter(answer => answer && scaleScore(scales[role], answer) === null);
+    if (unscored.length) {
+      const label = COLUMN_ROLES.find(def => def.role === role)!.label;
+      console.warn(`${label}: ${unscored.length} respuestas sin puntaje (${unscored.slice(0, 5).map(answer => `"${answer}"`).join(', ')}). Asígnales un puntaje en "scales.${role}" del archivo de configuración.`);
+    }
+  }
+}
+
+function reportPeriod(config: BatchReportConfig): { startDate: string, endDate: string } {
+  if (config.lastDays) {
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(end.getDate() - config.lastDays + 1);
+    return { startDate: sessionKey(start), endDate: sessionKey(end) };
+  }
+  return { startDate: config.startDate ?? '', endDate: config.endDate ?? '' };
+}
+
+async function createModel(config: BatchReportConfig): Promise<ReportModel> {
+  const settings = config.model;
+  switch (settings?.provider) {
+    case 'gemini': {
+      const apiKey = settings.apiKey || process.env['GEMINI_API_KEY'];
+      if (!apiKey) throw new Error('Falta la clave de Gemini: usa "model.apiKey" o la variable GEMINI_API_KEY.');
+      return new GeminiProvider(apiKey, settings.model || DEFAULT_MODELS['gemini']);
+    }
+    case 'openai-compatible':
+      if (!settings.baseUrl) throw new Error('Falta "model.baseUrl" para el proveedor compatible con OpenAI.');
+      return new OpenAiCompatibleProvider(settings.baseUrl, settings.model || DEFAULT_MODELS['openai-compatible'], settings.apiKey ?? '');
+    case 'module': {
+      if (!settings.module) throw new Error('Falta "model.module" con la ruta del módulo del modelo.');
+      const loaded = (await import(pathToFileURL(resolve(settings.module)).href)).default;
+      if (typeof loaded?.generateContent !== 'function') {
+        throw new Error(`El módulo ${settings.module} debe exportar por defecto un objeto con generateContent().`);
+      }
+      return { model: loaded.model ?? settings.module, generateContent: loaded.generateContent.bind(loaded) };
+    }
+    case 'mock':
+    case undefined:
+      return new MockProvider();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+import { Component, ChangeDetectionStrategy, inject, input, output, signal, computed } from '@angular/core';
+import { Assessment } from '../../models/assessment.model';
+import { DataService } from '../../services/data.service';
+import { ExportHeader, buildDocx, buildPdf, downloadBlob } from '../../utils/document-export';
+import { assessmentToMarkdown, buildExitTicket, exitTicketToCsv, exitTicketToFormsJson, exitTicketToMarkdown } from '../../utils/assessment';
+import { renderMarkdown } from '../../utils/safe-markdown';
+
+type AssessmentTab = 'quiz' | 'key' | 'exitTicket';
+
+@Component({
+  selector: 'app-assessment-panel',
+  templateUrl: './assessment-panel.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class AssessmentPanelComponent {
+  private dataService = inject(DataService);
+
+  assessment = input<Assessment | null>(null);
+  loading = input(false);
+  progress = input(0); // Characters received while the JSON streams in
+  error = input<string | null>(null);
+  canGenerate = input(false);
+  header = input.required<ExportHeader>();
+  materias = input<string[]>([]);
+  paralelos = input<string[]>([]);
+  generate = output<void>();
+  stop = output<void>();
+
+  tab = signal<AssessmentTab>('quiz');
+  exportError = signal<string | null>(null);
+
+  exitTicket = computed(() => {
+    const assessment = this.assessment();
+    return assessment ? buildExitTicket(assessment.exitTicketFocus, this.materias(), this.paralelos(), this.dataService.scales()) : [];
+  });
+
+  private exitTicketTitle = computed(() => `Ticket de Salida · ${this.header().materia || 'Clase'}`);
+
+  // Markdown of the sheet shown in each tab
+  sheets = computed<Record<AssessmentTab, string>>(() => {
+    const assessment = this.assessment();
+    if (!assessment) return { quiz: '', key: '', exitTicket: '' };
+    const withAnswers = assessmentToMarkdown(assessment, true);
+    return {
+      quiz: assessmentToMarkdown(assessment, false),
+      key: withAnswers.slice(withAnswers.indexOf('### Clave de Respuestas')),
+      exitTicket: exitTicketToMarkdown(this.exitTicketTitle(), this.exitTicket()),
+    };
+  });
+
+  rendered = computed(() => renderMarkdown(this.sheets()[this.tab()]));
+
+  async exportSheet(format: 'docx' | 'pdf') {
+    const tab = this.tab();
+    const titles: Record<AssessmentTab, string> = {
+      quiz: this.assessment()?.title ?? 'Evaluación Formativa',
+      key: 'Clave de Respuestas y Rúbrica',
+      exitTicket: this.exitTicketTitle(),
+    };
+    const header = { ...this.header(), title: titles[tab] };
+    this.exportError.set(null);
+    try {
+      const blob = format === 'docx' ? await buildDocx(header, this.sheets()[tab]) : buildPdf(header, this.sheets()[tab]);
+      downloadBlob(blob, `${this.filename(tab)}.${format}`);
+    } catch (e) {
+      console.error(e);
+      this.exportError.set(`No se pudo exportar el documento. ${(e as Error).message}`);
+    }
+  }
+
+  exportExitTicket(format: 'csv' | 'json') {
+    const questions = this.exitTicket();
+    const blob = format === 'csv'
+      ? new Blob([exitTicketToCsv(questions)], { type: 'text/csv;charset=utf-8' })
+      : new Blob([JSON.stringify(exitTicketToFormsJson(this.exitTicketTitle(), questions), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${this.filename('exitTicket')}.${format}`);
+  }
+
+  private filename(tab: AssessmentTab): string {
+    const names: Record<AssessmentTab, string> = { quiz: 'Evaluacion', key: 'Clave_y_Rubrica', exitTicket: 'Ticket_de_Salida' };
+    return `${names[tab]}_${new Date().toISOString().slice(0, 10)}`;
+  }
+}
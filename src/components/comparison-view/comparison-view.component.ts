@@ -0,0 +1,192 @@
+import { Component, ChangeDetectionStrategy, inject, input, signal, computed, effect, viewChild, ElementRef } from '@angular/core';
+import { TicketData } from '../../models/ticket-data.model';
+import { DataService } from '../../services/data.service';
+import { COMPREHENSION_LABELS, ENGAGEMENT_LABELS, parseScore, scaleScore } from '../../utils/ticket-scales';
+import { SIGNIFICANCE_LEVEL, TestResult, chiSquareTest, oneWayAnova } from '../../utils/stats';
+
+declare var d3: any;
+
+type ComparisonDimension = 'Paralelo' | 'Materia';
+
+interface GroupSummary {
+  name: string;
+  responses: number;
+  averageScore: number | null;
+  comprehensionIndex: number | null;
+  engagementIndex: number | null;
+  comprehension: number[]; // Counts per SCALE_LEVELS entry
+  engagement: number[]; // Counts per SCALE_LEVELS entry
+  scoreCounts: number[]; // Counts for scores 1..10
+  scores: number[];
+}
+
+interface DistributionComparison {
+  title: string;
+  categories: string[];
+  counts: (group: GroupSummary) => number[];
+  test: TestResult | null;
+}
+
+// Answer scores ordered worst to best so the grouped bars read left to right
+const SCALE_LEVELS = [1, 2, 3];
+const SCORE_CATEGORIES = Array.from({ length: 10 }, (_, i) => String(i + 1));
+
+@Component({
+  selector: 'app-comparison-view',
+  templateUrl: './comparison-view.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class ComparisonViewComponent {
+  private dataService = inject(DataService);
+
+  // Tickets within the applied date range
+  data = input.required<TicketData[]>();
+  // Applied filter on the dimension not being compared
+  materia = input('');
+  paralelo = input('');
+
+  dimension = signal<ComparisonDimension>('Paralelo');
+  selected = signal<string[]>([]);
+
+  // Rows matching the filter of the other dimension
+  scopedData = computed(() => {
+    const dimension = this.dimension();
+    return this.data().filter(row => dimension === 'Paralelo'
+      ? !this.materia() || row.Materia === this.materia()
+      : !this.paralelo() || row.Paralelo === this.paralelo());
+  });
+
+  options = computed(() => [...new Set(this.scopedData().map(row => row[this.dimension()] as string))].sort());
+
+  groups = computed<GroupSummary[]>(() => {
+    const dimension = this.dimension();
+    return this.selected()
+      .filter(name => this.options().includes(name))
+      .map(name => this.summarize(name, this.scopedData().filter(row => row[dimension] === name)));
+  });
+
+  comparisons = computed<DistributionComparison[]>(() => {
+    const groups = this.groups();
+    if (groups.length < 2) return [];
+    const scales = this.dataService.scales();
+    // Each level is named after the options scored with it
+    const levelNames = (scale: Record<string, number>, labels: { [answer: string]: string }) => SCALE_LEVELS.map(level =>
+      Object.keys(scale).filter(option => scale[option] === level).map(option => labels[option] ?? option).join(' / ') || String(level));
+    return [
+      {
+        title: 'Comprensión',
+        categories: levelNames(scales.comprehension, COMPREHENSION_LABELS),
+        counts: g => g.comprehension,
+        test: chiSquareTest(groups.map(g => g.comprehension)),
+      },
+      {
+        title: 'Compromiso',
+        categories: levelNames(scales.engagement, ENGAGEMENT_LABELS),
+        counts: g => g.engagement,
+        test: chiSquareTest(groups.map(g => g.engagement)),
+      },
+      {
+        title: 'Satisfacción (1-10)',
+        categories: SCORE_CATEGORIES,
+        counts: g => g.scoreCounts,
+        // Scores are compared by their means rather than their distribution
+        test: oneWayAnova(groups.map(g => g.scores)),
+      },
+    ];
+  });
+
+  chartContainers = viewChild<ElementRef>('charts');
+
+  constructor() {
+    effect(() => {
+      const container = this.chartContainers()?.nativeElement as HTMLElement | undefined;
+      const groups = this.groups();
+      const comparisons = this.comparisons();
+      if (!container) return;
+      container.querySelectorAll<HTMLElement>('[data-chart]').forEach((element, i) => {
+        if (comparisons[i]) this.drawGroupedBarChart(element, comparisons[i], groups);
+      });
+    });
+  }
+
+  onDimensionChange(event: Event) {
+    this.dimension.set((event.target as HTMLSelectElement).value as ComparisonDimension);
+    this.selected.set([]);
+  }
+
+  toggleOption(name: string) {
+    this.selected.update(names => names.includes(name) ? names.filter(n => n !== name) : [...names, name]);
+  }
+
+  isSignificant(test: TestResult | null): boolean {
+    return !!test && test.pValue < SIGNIFICANCE_LEVEL;
+  }
+
+  formatNumber(value: number | null, digits = 2): string {
+    return value === null ? 'N/A' : value.toFixed(digits);
+  }
+
+  private summarize(name: string, rows: TicketData[]): GroupSummary {
+    const value = (row: TicketData, role: 'comprehension' | 'engagement' | 'score') => this.dataService.value(row, role);
+    const scales = this.dataService.scales();
+    const comprehensionLevels = rows.map(r => scaleScore(scales.comprehension, value(r, 'comprehension'))).filter((s): s is number => s !== null);
+    const engagementLevels = rows.map(r => scaleScore(scales.engagement, value(r, 'engagement'))).filter((s): s is number => s !== null);
+    const scores = rows.map(r => parseScore(value(r, 'score'))).filter((s): s is number => s !== null);
+    const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+    const index = (levels: number[]) => {
+      const m = mean(levels);
+      return m === null ? null : ((m - 1) / 2) * 100;
+    };
+
+    return {
+      name,
+      responses: rows.length,
+      averageScore: mean(scores),
+      comprehensionIndex: index(comprehensionLevels),
+      engagementIndex: index(engagementLevels),
+      comprehension: SCALE_LEVELS.map(level => comprehensionLevels.filter(l => l === level).length),
+      engagement: SCALE_LEVELS.map(level => engagementLevels.filter(l => l === level).length),
+      scoreCounts: SCORE_CATEGORIES.map(c => scores.filter(s => s === Number(c)).length),
+      scores,
+    };
+  }
+
+  // Bars show the share of each group's answers so groups of different sizes compare fairly
+  private drawGroupedBarChart(element: HTMLElement, comparison: DistributionComparison, groups: GroupSummary[]) {
+    d3.select(element).selectAll('*').remove();
+
+    const margin = { top: 10, right: 20, bottom: 40, left: 40 };
+    const width = (element.getBoundingClientRect().width || 500) - margin.left - margin.right;
+    const height = 260 - margin.top - margin.bottom;
+    const shares = groups.map(g => {
+      const counts = comparison.counts(g);
+      const total = counts.reduce((a, b) => a + b, 0);
+      return counts.map(c => total ? c / total : 0);
+    });
+
+    const svg = d3.select(element).append("svg")
+        .attr("width", width + margin.left + margin.right)
+        .attr("height", height + margin.top + margin.bottom)
+        .append("g")
+        .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const x0 = d3.scaleBand().range([0, width]).padding(0.2).domain(comparison.categories);
+    const x1 = d3.scaleBand().range([0, x0.bandwidth()]).padding(0.05).domain(groups.map(g => g.name));
+    const y = d3.scaleLinear().range([height, 0]).domain([0, Math.max(0.01, d3.max(shares.flat()))]);
+    const colorScale = d3.scaleOrdinal(d3.schemeCategory10).domain(groups.map(g => g.name));
+
+    svg.append("g").attr("transform", `translate(0,${height})`).call(d3.axisBottom(x0));
+    svg.append("g").call(d3.axisLeft(y).ticks(5).tickFormat(d3.format(".0%")));
+
+    groups.forEach((group, gi) => {
+      svg.selectAll(null).data(comparison.categories).enter().append("rect")
+          .attr("x", (c: string) => x0(c) + x1(group.name))
+          .attr("y", (_: string, ci: number) => y(shares[gi][ci]))
+          .attr("width", x1.bandwidth())
+          .attr("height", (_: string, ci: number) => height - y(shares[gi][ci]))
+          .attr("fill", colorScale(group.name))
+          .append("title").text((c: string, ci: number) => `${group.name} · ${c}: ${(shares[gi][ci] * 100).toFixed(1)}%`);
+    });
+  }
+}
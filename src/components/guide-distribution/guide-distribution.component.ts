@@ -0,0 +1,33 @@
+import { Component, ChangeDetectionStrategy, input, signal } from '@angular/core';
+import { GuideGroup } from '../../utils/differentiated-guides';
+import { downloadBlob } from '../../utils/document-export';
+
+declare var Papa: any;
+
+// Who receives each version of the differentiated student guide
+@Component({
+  selector: 'app-guide-distribution',
+  templateUrl: './guide-distribution.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class GuideDistributionComponent {
+  groups = input.required<GuideGroup[]>();
+  copiedVersion = signal<string | null>(null);
+
+  async copyEmails(group: GuideGroup) {
+    await navigator.clipboard.writeText(group.recipients.map(r => r.email).join(', '));
+    this.copiedVersion.set(group.version.id);
+    setTimeout(() => this.copiedVersion.set(null), 2000);
+  }
+
+  exportCsv() {
+    const rows = this.groups().flatMap(group => group.recipients.map(recipient => ({
+      'Nombre': recipient.name,
+      'Email': recipient.email,
+      'Versión de la Guía': group.version.title,
+      'Nivel de Comprensión': recipient.answered ? group.version.group : 'Sin respuesta',
+    })));
+    downloadBlob(new Blob([Papa.unparse(rows)], { type: 'text/csv;charset=utf-8' }), `Distribucion_Guias_${new Date().toISOString().slice(0, 10)}.csv`);
+  }
+}
@@ -0,0 +1,72 @@
+import { Component, ChangeDetectionStrategy, inject, signal, computed, output } from '@angular/core';
+import { HistoryService } from '../../services/history.service';
+import { GENERATION_KIND_LABELS, GenerationKind, GenerationRecord } from '../../models/history.model';
+import { themesToMarkdown } from '../../utils/structured-summary';
+import { assessmentToMarkdown, parseAssessment } from '../../utils/assessment';
+import { renderMarkdown } from '../../utils/safe-markdown';
+
+@Component({
+  selector: 'app-history-sidebar',
+  templateUrl: './history-sidebar.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class HistorySidebarComponent {
+  historyService = inject(HistoryService);
+  opened = output<GenerationRecord>();
+  closed = output<void>();
+
+  readonly kindLabels = GENERATION_KIND_LABELS;
+  readonly kinds = Object.keys(GENERATION_KIND_LABELS) as GenerationKind[];
+
+  kindFilter = signal<GenerationKind | ''>('lessonPlan');
+  compareIds = signal<string[]>([]);
+  isComparing = signal(false);
+
+  // Records grouped by Materia / Paralelo, preserving newest-first order
+  groups = computed(() => {
+    const kind = this.kindFilter();
+    const groups = new Map<string, GenerationRecord[]>();
+    for (const record of this.historyService.records()) {
+      if (kind && record.kind !== kind) continue;
+      const key = `${record.materia || 'Todas las materias'} · ${record.paralelo || 'Todos los paralelos'}`;
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+    return [...groups.entries()].map(([label, records]) => ({ label, records }));
+  });
+
+  compared = computed(() => {
+    const ids = this.compareIds();
+    return this.historyService.records().filter(r => ids.includes(r.id));
+  });
+
+  onKindFilterChange(event: Event) {
+    this.kindFilter.set((event.target as HTMLSelectElement).value as GenerationKind | '');
+  }
+
+  toggleCompare(record: GenerationRecord) {
+    this.compareIds.update(ids => ids.includes(record.id)
+      ? ids.filter(id => id !== record.id)
+      : [...ids, record.id].slice(-2));
+  }
+
+  async duplicate(record: GenerationRecord) {
+    this.opened.emit(await this.historyService.duplicate(record));
+  }
+
+  async remove(record: GenerationRecord) {
+    if (!confirm(`¿Eliminar "${record.title}" del historial?`)) return;
+    await this.historyService.remove(record.id);
+    this.compareIds.update(ids => ids.filter(id => id !== record.id));
+  }
+
+  render(record: GenerationRecord): string {
+    const assessment = record.kind === 'assessment' ? parseAssessment(record.raw) : null;
+    if (assessment) return renderMarkdown(assessmentToMarkdown(assessment));
+    return renderMarkdown(record.themes ? themesToMarkdown(record.themes) : record.raw);
+  }
+
+  formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' });
+  }
+}
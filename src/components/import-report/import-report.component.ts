@@ -0,0 +1,105 @@
+import { Component, ChangeDetectionStrategy, inject, input, output, computed, linkedSignal, untracked } from '@angular/core';
+import { COLUMN_ROLES, ColumnMapping, ParsedSheet } from '../../models/column-mapping.model';
+import { ImportIssue, ImportIssueKind } from '../../models/import-report.model';
+import { DataService } from '../../services/data.service';
+import { IMPORT_ISSUE_LABELS, defaultExclusions, fixedRows } from '../../utils/import-validation';
+import { DATE_FORMAT_LABELS, DateFormat } from '../../utils/date-parsing';
+
+interface RowReport {
+  row: number;
+  identity: string;
+  issues: ImportIssue[];
+  blocking: boolean;
+}
+
+// Lists row-level problems of an import so the teacher can fix or exclude rows and keep the rest
+@Component({
+  selector: 'app-import-report',
+  templateUrl: './import-report.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class ImportReportComponent {
+  dataService = inject(DataService);
+
+  sheet = input.required<ParsedSheet>();
+  mapping = input.required<ColumnMapping>();
+  confirmed = output<ParsedSheet>();
+  cancelled = output<void>();
+
+  readonly issueLabels = IMPORT_ISSUE_LABELS;
+  readonly dateFormats = Object.entries(DATE_FORMAT_LABELS) as [DateFormat, string][];
+
+  // Corrected cell values keyed by "row|header", starting from the ones saved with the sheet
+  fixes = linkedSignal<ParsedSheet, Record<string, string>>({
+    source: this.sheet,
+    computation: sheet => ({ ...sheet.cellFixes }),
+  });
+
+  fixedSheet = computed<ParsedSheet>(() => ({ ...this.sheet(), cellFixes: this.fixes(), excludedRows: [] }));
+
+  // Issues of every row, excluded or not, so excluding a row never hides why it was flagged
+  issues = computed(() => this.dataService.validate(this.fixedSheet(), this.mapping()));
+
+  excluded = linkedSignal<ParsedSheet, Set<number>>({
+    source: this.sheet,
+    computation: sheet => new Set([...(sheet.excludedRows ?? []), ...defaultExclusions(untracked(this.issues))]),
+  });
+
+  rows = computed<RowReport[]>(() => {
+    const mapping = this.mapping();
+    const cellsByRow = fixedRows(this.fixedSheet());
+    const byRow = new Map<number, ImportIssue[]>();
+    for (const issue of this.issues()) byRow.set(issue.row, [...(byRow.get(issue.row) ?? []), issue]);
+    return [...byRow].map(([row, issues]) => {
+      const cells = cellsByRow[row - 2] ?? {};
+      const identity = [cells[mapping.email!], cells[mapping.subject!], cells[mapping.section!]].filter(Boolean).join(' · ');
+      return { row, identity: identity || 'Sin datos de identificación', issues, blocking: issues.some(issue => issue.blocking) };
+    });
+  });
+
+  issueCounts = computed(() => {
+    const counts = new Map<ImportIssueKind, number>();
+    for (const issue of this.issues()) counts.set(issue.kind, (counts.get(issue.kind) ?? 0) + 1);
+    return [...counts].map(([kind, count]) => ({ label: IMPORT_ISSUE_LABELS[kind], count }));
+  });
+
+  // Only rows that still have problems stay excluded, e.g. after a fix or a different date format
+  excludedRows = computed(() => this.rows().map(row => row.row).filter(row => this.excluded().has(row)));
+  blockedRows = computed(() => this.rows().filter(row => row.blocking && !this.excluded().has(row.row)).length);
+  validRowCount = computed(() => this.sheet().rows.length - this.excludedRows().length);
+
+  headerFor(issue: ImportIssue): string | null {
+    return issue.role && issue.kind !== 'duplicate' ? this.mapping()[issue.role] : null;
+  }
+
+  roleLabel(issue: ImportIssue): string {
+    return COLUMN_ROLES.find(def => def.role === issue.role)?.label ?? '';
+  }
+
+  onFix(event: Event, row: number, header: string) {
+    const value = (event.target as HTMLInputElement).value;
+    this.fixes.update(fixes => ({ ...fixes, [`${row}|${header}`]: value }));
+  }
+
+  toggleRow(row: number) {
+    this.excluded.update(excluded => {
+      const next = new Set(excluded);
+      if (!next.delete(row)) next.add(row);
+      return next;
+    });
+  }
+
+  excludeBlockedRows() {
+    this.excluded.update(excluded => new Set([...excluded, ...this.rows().filter(row => row.blocking).map(row => row.row)]));
+  }
+
+  onDateFormatChange(event: Event) {
+    this.dataService.setDateFormat((event.target as HTMLSelectElement).value as DateFormat);
+  }
+
+  confirm() {
+    if (this.blockedRows()) return;
+    this.confirmed.emit({ ...this.fixedSheet(), excludedRows: this.excludedRows() });
+  }
+}
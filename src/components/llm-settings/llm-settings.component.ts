@@ -0,0 +1,104 @@
+import { Component, ChangeDetectionStrategy, inject, signal, output } from '@angular/core';
+import { LlmService } from '../../services/llm.service';
+import { DEFAULT_BASE_URL, DEFAULT_MODELS, LlmProviderId, LlmSettings } from '../../models/llm-provider.model';
+import { PrivacyService } from '../../services/privacy.service';
+import { PrivacySettings } from '../../models/privacy.model';
+import { PayloadReviewComponent } from '../payload-review/payload-review.component';
+import { ResponsePreprocessingService } from '../../services/response-preprocessing.service';
+import { PreprocessingSettings } from '../../models/preprocessing.model';
+import { DEFAULT_PREPROCESSING_SETTINGS } from '../../utils/response-preprocessing';
+import { UsageService } from '../../services/usage.service';
+import { UsageSettings } from '../../models/usage.model';
+import { UsageSummaryComponent } from '../usage-summary/usage-summary.component';
+
+@Component({
+  selector: 'app-llm-settings',
+  templateUrl: './llm-settings.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+  imports: [PayloadReviewComponent, UsageSummaryComponent],
+})
+export class LlmSettingsComponent {
+  llmService = inject(LlmService);
+  privacyService = inject(PrivacyService);
+  private preprocessingService = inject(ResponsePreprocessingService);
+  private usageService = inject(UsageService);
+  closed = output<void>();
+
+  // Edited copies, only applied on save
+  draft = signal<LlmSettings>({ ...this.llmService.settings() });
+  privacyDraft = signal<PrivacySettings>({ ...this.privacyService.settings() });
+  preprocessingDraft = signal<PreprocessingSettings>({ ...this.preprocessingService.settings() });
+  usageDraft = signal<UsageSettings>({ ...this.usageService.settings() });
+  isLastPayloadVisible = signal(false);
+
+  readonly providers: { id: LlmProviderId | null, label: string }[] = [
+    { id: null, label: 'Ninguno (sin IA)' },
+    { id: 'gemini', label: 'Google Gemini' },
+    { id: 'openai-compatible', label: 'Servidor compatible con OpenAI (Ollama, llama.cpp...)' },
+    { id: 'mock', label: 'Simulado (sin conexión, para pruebas)' },
+  ];
+
+  onProviderChange(event: Event) {
+    const provider = ((event.target as HTMLSelectElement).value || null) as LlmProviderId | null;
+    this.draft.update(d => ({
+      ...d,
+      provider,
+      model: provider ? DEFAULT_MODELS[provider] : '',
+      baseUrl: d.baseUrl || DEFAULT_BASE_URL,
+    }));
+  }
+
+  onFieldInput(event: Event, field: 'model' | 'apiKey' | 'baseUrl') {
+    const value = (event.target as HTMLInputElement).value;
+    this.draft.update(d => ({ ...d, [field]: value }));
+  }
+
+  onPrivacyToggle(event: Event, field: keyof PrivacySettings) {
+    const checked = (event.target as HTMLInputElement).checked;
+    this.privacyDraft.update(d => ({ ...d, [field]: checked }));
+  }
+
+  onLexiconInput(event: Event) {
+    const lexicon = (event.target as HTMLTextAreaElement).value.split(/[,\n]/).map(word => word.trim()).filter(Boolean);
+    this.preprocessingDraft.update(d => ({ ...d, lexicon }));
+  }
+
+  onBudgetInput(event: Event) {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (value > 0) this.preprocessingDraft.update(d => ({ ...d, contextBudgetTokens: Math.round(value) }));
+  }
+
+  onPreGroupToggle(event: Event) {
+    const preGroup = (event.target as HTMLInputElement).checked;
+    this.preprocessingDraft.update(d => ({ ...d, preGroup }));
+  }
+
+  onCacheToggle(event: Event) {
+    const cacheEnabled = (event.target as HTMLInputElement).checked;
+    this.usageDraft.update(d => ({ ...d, cacheEnabled }));
+  }
+
+  onCacheTtlInput(event: Event) {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (value > 0) this.usageDraft.update(d => ({ ...d, cacheTtlHours: value }));
+  }
+
+  // Zero is allowed for the limits and means "no limit"
+  onUsageLimitInput(event: Event, field: 'dailyTokenBudget' | 'largeRequestTokens') {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (value >= 0) this.usageDraft.update(d => ({ ...d, [field]: Math.round(value) }));
+  }
+
+  resetPreprocessing() {
+    this.preprocessingDraft.set(structuredClone(DEFAULT_PREPROCESSING_SETTINGS));
+  }
+
+  save() {
+    this.preprocessingService.save(this.preprocessingDraft());
+    this.usageService.save(this.usageDraft());
+    this.llmService.updateSettings(this.draft());
+    this.privacyService.updateSettings(this.privacyDraft());
+    this.closed.emit();
+  }
+}
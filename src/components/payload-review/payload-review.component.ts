@@ -0,0 +1,16 @@
+import { Component, ChangeDetectionStrategy, inject, input } from '@angular/core';
+import { PrivacyService } from '../../services/privacy.service';
+import { LlmPayload } from '../../models/privacy.model';
+
+// Shows the exact, already redacted request; in review mode the teacher approves or cancels it
+@Component({
+  selector: 'app-payload-review',
+  templateUrl: './payload-review.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class PayloadReviewComponent {
+  privacyService = inject(PrivacyService);
+  payload = input.required<LlmPayload>();
+  awaitingDecision = input(true);
+}
@@ -0,0 +1,106 @@
+import { Component, ChangeDetectionStrategy, inject, signal, computed, linkedSignal, input, output } from '@angular/core';
+import { PromptLibraryService } from '../../services/prompt-library.service';
+import { FewShotExample, PromptEntry, PromptKind, PromptLibrary, PromptVersion } from '../../models/prompt-library.model';
+import { GENERATION_KIND_LABELS } from '../../models/history.model';
+import { DEFAULT_PROMPT_VERSION_ID, PROMPT_KINDS, PROMPT_VARIABLES, createPromptVersion } from '../../utils/prompt-library';
+
+@Component({
+  selector: 'app-prompt-library',
+  templateUrl: './prompt-library.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class PromptLibraryComponent {
+  private promptLibraryService = inject(PromptLibraryService);
+  // Renders the first request a version would send with the dashboard's current data
+  preview = input.required<(kind: PromptKind, version: PromptVersion) => { systemPrompt: string, userQuery: string } | null>();
+  closed = output<void>();
+
+  readonly kinds = PROMPT_KINDS;
+  readonly kindLabels = GENERATION_KIND_LABELS;
+  readonly defaultVersionId = DEFAULT_PROMPT_VERSION_ID;
+
+  draft = signal<PromptLibrary>(structuredClone(this.promptLibraryService.library()));
+  selectedKind = signal<PromptKind>('learnings');
+  entry = computed(() => this.draft()[this.selectedKind()]);
+  // Follows the active version whenever the kind or the library changes
+  selectedVersionId = linkedSignal(() => this.entry().activeVersionId);
+  selectedVersion = computed(() => this.entry().versions.find(v => v.id === this.selectedVersionId()) ?? this.entry().versions[0]);
+
+  // Saved versions are never changed; edits become a new version
+  editor = linkedSignal(() => structuredClone(this.selectedVersion()));
+  isEdited = computed(() => JSON.stringify(this.editor()) !== JSON.stringify(this.selectedVersion()));
+  newVersionName = signal('');
+
+  variables = computed(() => PROMPT_VARIABLES[this.selectedKind()]);
+  unknownVariables = computed(() => {
+    const known = new Set(this.variables().map(v => v.name));
+    const used = `${this.editor().systemPrompt} ${this.editor().userPrompt}`.match(/\{\w+\}/g) ?? [];
+    return [...new Set(used)].filter(name => !known.has(name.slice(1, -1)));
+  });
+  rendered = computed(() => this.preview()(this.selectedKind(), this.editor()));
+
+  onVersionSelect(event: Event) {
+    this.selectedVersionId.set((event.target as HTMLSelectElement).value);
+  }
+
+  onEditorInput(event: Event, field: 'systemPrompt' | 'userPrompt') {
+    const value = (event.target as HTMLTextAreaElement).value;
+    this.editor.update(version => ({ ...version, [field]: value }));
+  }
+
+  addExample() {
+    this.editor.update(version => ({ ...version, examples: [...version.examples, { input: '', output: '' }] }));
+  }
+
+  removeExample(index: number) {
+    this.editor.update(version => ({ ...version, examples: version.examples.filter((_, i) => i !== index) }));
+  }
+
+  onExampleInput(event: Event, index: number, field: keyof FewShotExample) {
+    const value = (event.target as HTMLTextAreaElement).value;
+    this.editor.update(version => ({ ...version, examples: version.examples.map((e, i) => i === index ? { ...e, [field]: value } : e) }));
+  }
+
+  discardEdits() {
+    this.editor.set(structuredClone(this.selectedVersion()));
+  }
+
+  // Saves the edits as a new named version and makes it the one used for generation
+  saveAsVersion() {
+    const kind = this.selectedKind();
+    const name = this.newVersionName().trim() || `Versión ${this.entry().versions.length + 1}`;
+    const version = createPromptVersion(this.editor(), name);
+    this.updateEntry(kind, entry => ({ activeVersionId: version.id, versions: [...entry.versions, version] }));
+    this.newVersionName.set('');
+  }
+
+  activateSelected() {
+    const id = this.selectedVersion().id;
+    this.updateEntry(this.selectedKind(), entry => ({ ...entry, activeVersionId: id }));
+  }
+
+  removeSelected() {
+    const id = this.selectedVersion().id;
+    if (id === DEFAULT_PROMPT_VERSION_ID) return;
+    this.updateEntry(this.selectedKind(), entry => ({
+      activeVersionId: entry.activeVersionId === id ? DEFAULT_PROMPT_VERSION_ID : entry.activeVersionId,
+      versions: entry.versions.filter(v => v.id !== id),
+    }));
+  }
+
+  resetToDefaults() {
+    if (!confirm('¿Restaurar los prompts predeterminados? Se perderán todas las versiones personalizadas.')) return;
+    this.promptLibraryService.resetToDefaults();
+    this.draft.set(structuredClone(this.promptLibraryService.library()));
+  }
+
+  save() {
+    this.promptLibraryService.save(this.draft());
+    this.closed.emit();
+  }
+
+  private updateEntry(kind: PromptKind, change: (entry: PromptEntry) => PromptEntry) {
+    this.draft.update(library => ({ ...library, [kind]: change(library[kind]) }));
+  }
+}
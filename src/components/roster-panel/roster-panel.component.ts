@@ -0,0 +1,62 @@
+import { Component, ChangeDetectionStrategy, inject, input, signal, computed } from '@angular/core';
+import { TicketData } from '../../models/ticket-data.model';
+import { RosterService } from '../../services/roster.service';
+import { rosterAttendance, rosterForClass } from '../../utils/roster';
+
+// Enrolled students matched against submissions: response rate per session and who stopped answering
+@Component({
+  selector: 'app-roster-panel',
+  templateUrl: './roster-panel.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class RosterPanelComponent {
+  rosterService = inject(RosterService);
+
+  data = input.required<TicketData[]>();
+  materia = input('');
+  paralelo = input('');
+
+  minMissed = this.rosterService.minMissed;
+  importMessage = signal<string | null>(null);
+  importError = signal<string | null>(null);
+  copied = signal(false);
+
+  // Roster entries of the classes in the applied filter
+  scopedRoster = computed(() => rosterForClass(this.rosterService.students(), this.materia(), this.paralelo()));
+
+  attendance = computed(() => rosterAttendance(this.scopedRoster(), this.data(), this.minMissed()));
+
+  async onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.importError.set(null);
+    try {
+      const skipped = await this.rosterService.importCsv(file);
+      const count = this.rosterService.students().length;
+      this.importMessage.set(`${count} estudiantes importados${skipped ? `; ${skipped} filas sin correo, Materia o Paralelo se omitieron` : ''}.`);
+    } catch (error: any) {
+      this.importMessage.set(null);
+      this.importError.set(error.message);
+    }
+  }
+
+  onMinMissedInput(event: Event) {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (value >= 1) this.minMissed.set(Math.round(value));
+  }
+
+  clearRoster() {
+    this.rosterService.clear();
+    this.importMessage.set(null);
+  }
+
+  async copyEmails() {
+    const emails = [...new Set(this.attendance().nonRespondents.map(entry => entry.student.email))];
+    await navigator.clipboard.writeText(emails.join(', '));
+    this.copied.set(true);
+    setTimeout(() => this.copied.set(false), 2000);
+  }
+}
@@ -0,0 +1,80 @@
+import { Component, ChangeDetectionStrategy, inject, signal, computed, output } from '@angular/core';
+import { PriorityRulesService } from '../../services/priority-rules.service';
+import { DataService } from '../../services/data.service';
+import { PriorityRule, RULE_OPERATOR_LABELS, RULE_SEVERITY_LABELS, RuleCondition, RuleOperator, RuleSeverity } from '../../models/priority-rule.model';
+import { COLUMN_ROLES, ColumnRole } from '../../models/column-mapping.model';
+import { scaleOptions } from '../../utils/ticket-scales';
+import { createRule } from '../../utils/priority-rules';
+
+@Component({
+  selector: 'app-rules-editor',
+  templateUrl: './rules-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class RulesEditorComponent {
+  private rulesService = inject(PriorityRulesService);
+  private dataService = inject(DataService);
+  closed = output<void>();
+
+  draft = signal<PriorityRule[]>(structuredClone(this.rulesService.rules()));
+
+  readonly columnRoles = COLUMN_ROLES.filter(def => def.role !== 'timestamp');
+  readonly operators = Object.entries(RULE_OPERATOR_LABELS) as [RuleOperator, string][];
+  readonly severities = Object.entries(RULE_SEVERITY_LABELS).map(([value, label]) => ({ value: Number(value) as RuleSeverity, label }));
+  // Known answer options offered as suggestions for `equals` conditions
+  readonly knownAnswers = computed(() => [...scaleOptions(this.dataService.scales().comprehension), ...scaleOptions(this.dataService.scales().engagement)]);
+
+  addRule() {
+    this.draft.update(rules => [...rules, createRule()]);
+  }
+
+  removeRule(index: number) {
+    this.draft.update(rules => rules.filter((_, i) => i !== index));
+  }
+
+  updateRule(index: number, changes: Partial<PriorityRule>) {
+    this.draft.update(rules => rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  }
+
+  addCondition(ruleIndex: number) {
+    const rule = this.draft()[ruleIndex];
+    this.updateRule(ruleIndex, { conditions: [...rule.conditions, { role: 'confusion', operator: 'containsAny', value: '' }] });
+  }
+
+  removeCondition(ruleIndex: number, conditionIndex: number) {
+    const rule = this.draft()[ruleIndex];
+    this.updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) });
+  }
+
+  updateCondition(ruleIndex: number, conditionIndex: number, changes: Partial<RuleCondition>) {
+    const rule = this.draft()[ruleIndex];
+    this.updateRule(ruleIndex, { conditions: rule.conditions.map((c, i) => i === conditionIndex ? { ...c, ...changes } : c) });
+  }
+
+  onRuleInput(event: Event, index: number, field: 'label' | 'severity' | 'combinator' | 'enabled') {
+    const target = event.target as HTMLInputElement;
+    if (field === 'enabled') this.updateRule(index, { enabled: target.checked });
+    else if (field === 'severity') this.updateRule(index, { severity: Number(target.value) as RuleSeverity });
+    else if (field === 'combinator') this.updateRule(index, { combinator: target.value as 'AND' | 'OR' });
+    else this.updateRule(index, { label: target.value });
+  }
+
+  onConditionInput(event: Event, ruleIndex: number, conditionIndex: number, field: keyof RuleCondition) {
+    const value = (event.target as HTMLInputElement).value;
+    if (field === 'role') this.updateCondition(ruleIndex, conditionIndex, { role: value as ColumnRole });
+    else if (field === 'operator') this.updateCondition(ruleIndex, conditionIndex, { operator: value as RuleOperator });
+    else this.updateCondition(ruleIndex, conditionIndex, { value });
+  }
+
+  resetToDefaults() {
+    if (!confirm('¿Restaurar las reglas predeterminadas? Se perderán tus reglas personalizadas.')) return;
+    this.rulesService.resetToDefaults();
+    this.draft.set(structuredClone(this.rulesService.rules()));
+  }
+
+  save() {
+    this.rulesService.save(this.draft());
+    this.closed.emit();
+  }
+}
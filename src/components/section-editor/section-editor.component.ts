@@ -0,0 +1,61 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed } from '@angular/core';
+import { MarkdownSection, joinMarkdownSections, splitMarkdownSections } from '../../utils/markdown-sections';
+import { SECTION_ACTION_LABELS, SectionAction, SectionRevisionRequest } from '../../utils/section-revision';
+import { renderMarkdown } from '../../utils/safe-markdown';
+
+// Renders generated markdown section by section so each one can be edited or revised in place
+@Component({
+  selector: 'app-section-editor',
+  templateUrl: './section-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class SectionEditorComponent {
+  markdown = input.required<string>();
+  busyIndex = input<number | null>(null); // Section currently being revised by the model
+  aiEnabled = input(true);
+  changed = output<string>();
+  revise = output<SectionRevisionRequest>();
+
+  sections = computed(() => splitMarkdownSections(this.markdown()));
+  editingIndex = signal<number | null>(null);
+  draftTitle = signal('');
+  draftBody = signal('');
+  groupSize = signal(4);
+
+  readonly actions = Object.entries(SECTION_ACTION_LABELS) as [SectionAction, string][];
+
+  render(section: MarkdownSection): string {
+    return renderMarkdown(section.body);
+  }
+
+  startEditing(index: number) {
+    const section = this.sections()[index];
+    this.draftTitle.set(section.title);
+    this.draftBody.set(section.body);
+    this.editingIndex.set(index);
+  }
+
+  cancelEditing() {
+    this.editingIndex.set(null);
+  }
+
+  saveSection() {
+    const index = this.editingIndex();
+    if (index === null) return;
+    const sections = this.sections().map((section, i) => i === index
+      ? { ...section, title: this.draftTitle().trim(), body: this.draftBody().trim() }
+      : section);
+    this.editingIndex.set(null);
+    this.changed.emit(joinMarkdownSections(sections));
+  }
+
+  requestRevision(index: number, action: SectionAction) {
+    this.revise.emit({ action, index, groupSize: action === 'groupActivity' ? this.groupSize() : undefined });
+  }
+
+  onGroupSizeInput(event: Event) {
+    const size = parseInt((event.target as HTMLInputElement).value, 10);
+    if (size > 0) this.groupSize.set(size);
+  }
+}
@@ -0,0 +1,128 @@
+import { Component, ChangeDetectionStrategy, inject, input, signal, computed, effect, viewChild, ElementRef } from '@angular/core';
+import { TicketData } from '../../models/ticket-data.model';
+import { GenerationRecord } from '../../models/history.model';
+import { DataService } from '../../services/data.service';
+import { SessionPoint, buildSessionTrends } from '../../utils/session-trends';
+import { sessionKey } from '../../utils/ticket-scales';
+import { escapeHtml } from '../../utils/safe-markdown';
+
+declare var d3: any;
+
+type TrendMetric = 'averageScore' | 'comprehensionIndex' | 'responseRate';
+
+interface PlanAnnotation {
+  session: string;
+  series: string;
+  title: string;
+}
+
+@Component({
+  selector: 'app-session-trends',
+  templateUrl: './session-trends.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class SessionTrendsComponent {
+  private dataService = inject(DataService);
+
+  data = input.required<TicketData[]>();
+  lessonPlans = input<GenerationRecord[]>([]);
+  // Roster size per classKey(); response rates fall back to the students seen in the data
+  enrolledByClass = input<Map<string, number>>(new Map());
+
+  readonly metrics: { id: TrendMetric, label: string, max: number }[] = [
+    { id: 'averageScore', label: 'Puntuación Promedio (1-10)', max: 10 },
+    { id: 'comprehensionIndex', label: 'Índice de Comprensión (0-100)', max: 100 },
+    { id: 'responseRate', label: 'Tasa de Respuesta (%)', max: 100 },
+  ];
+  metric = signal<TrendMetric>('averageScore');
+
+  points = computed(() => buildSessionTrends(this.data(), (row, role) => this.dataService.value(row, role), this.dataService.scales(), this.enrolledByClass()));
+
+  // A lesson plan is marked on the first session of its Materia/Paralelo held after it was generated
+  annotations = computed<PlanAnnotation[]>(() => {
+    const points = this.points();
+    const materias = new Set(this.data().map(d => d.Materia));
+    const annotations: PlanAnnotation[] = [];
+    for (const plan of this.lessonPlans()) {
+      if (plan.materia && !materias.has(plan.materia)) continue;
+      const createdOn = sessionKey(new Date(plan.createdAt));
+      const next = points.find(p => p.session > createdOn && (!plan.materia || p.materia === plan.materia) && (!plan.paralelo || p.paralelo === plan.paralelo));
+      if (next) annotations.push({ session: next.session, series: this.seriesLabel(next), title: plan.title });
+    }
+    return annotations;
+  });
+
+  trendChart = viewChild<ElementRef>('trendChart');
+
+  constructor() {
+    effect(() => {
+      const element = this.trendChart()?.nativeElement;
+      if (element) this.drawChart(element, this.points(), this.annotations(), this.metric());
+    });
+  }
+
+  // One line per class; the Materia is only spelled out when the data has several
+  private seriesLabel(point: SessionPoint): string {
+    return new Set(this.points().map(p => p.materia)).size > 1 ? `${point.materia} · ${point.paralelo}` : point.paralelo;
+  }
+
+  onMetricChange(event: Event) {
+    this.metric.set((event.target as HTMLSelectElement).value as TrendMetric);
+  }
+
+  private drawChart(element: HTMLElement, points: SessionPoint[], annotations: PlanAnnotation[], metric: TrendMetric) {
+    d3.select(element).selectAll('*').remove();
+    const values = points.filter(p => p[metric] !== null);
+    const sessions = [...new Set(values.map(p => p.session))];
+    if (sessions.length < 2) {
+      d3.select(element).html('<p class="text-gray-500 py-4">Se necesitan al menos dos sesiones con datos para mostrar tendencias.</p>');
+      return;
+    }
+
+    const margin = { top: 30, right: 20, bottom: 30, left: 40 };
+    const width = (element.getBoundingClientRect().width || 600) - margin.left - margin.right;
+    const height = 320 - margin.top - margin.bottom; // h-80
+    const parseDate = d3.timeParse("%Y-%m-%d");
+
+    const svg = d3.select(element).append("svg")
+        .attr("width", width + margin.left + margin.right)
+        .attr("height", height + margin.top + margin.bottom)
+        .append("g")
+        .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleTime().range([0, width]).domain(d3.extent(sessions, (s: string) => parseDate(s)));
+    const y = d3.scaleLinear().range([height, 0]).domain([0, this.metrics.find(m => m.id === metric)!.max]);
+    svg.append("g").attr("transform", `translate(0,${height})`).call(d3.axisBottom(x).ticks(6).tickFormat(d3.timeFormat("%d/%m")));
+    svg.append("g").call(d3.axisLeft(y).ticks(5));
+
+    const seriesLabels = [...new Set(values.map(p => this.seriesLabel(p)))].sort();
+    const colorScale = d3.scaleOrdinal(d3.schemeCategory10).domain(seriesLabels);
+    const line = d3.line().x((p: SessionPoint) => x(parseDate(p.session))).y((p: SessionPoint) => y(p[metric]));
+
+    for (const label of seriesLabels) {
+      const series = values.filter(p => this.seriesLabel(p) === label);
+      svg.append("path").datum(series).attr("fill", "none").attr("stroke", colorScale(label)).attr("stroke-width", 2).attr("d", line);
+      svg.selectAll(null).data(series).enter().append("circle")
+          .attr("cx", (p: SessionPoint) => x(parseDate(p.session)))
+          .attr("cy", (p: SessionPoint) => y(p[metric]))
+          .attr("r", 4)
+          .attr("fill", colorScale(label))
+          .append("title").text((p: SessionPoint) => `${label} · ${p.session}: ${(p[metric] as number).toFixed(1)} (${p.responses} respuestas)`);
+    }
+
+    for (const annotation of annotations) {
+      const ax = x(parseDate(annotation.session));
+      svg.append("line").attr("x1", ax).attr("x2", ax).attr("y1", 0).attr("y2", height)
+          .attr("stroke", colorScale(annotation.series)).attr("stroke-dasharray", "4 3");
+      svg.append("text").attr("x", ax + 3).attr("y", -8).style("font-size", "10px").attr("fill", "#4f46e5")
+          .text(`Plan: ${annotation.title}`.slice(0, 30));
+    }
+
+    const legend = d3.select(element).append("div").attr("class", "flex flex-wrap gap-4 mt-2");
+    seriesLabels.forEach(label => {
+      legend.append("div").attr("class", "legend-item")
+          .html(`<div class="legend-color" style="background-color: ${colorScale(label)}"></div><span class="text-gray-700">${escapeHtml(label)}</span>`);
+    });
+  }
+}
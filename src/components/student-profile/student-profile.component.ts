@@ -0,0 +1,73 @@
+import { Component, ChangeDetectionStrategy, input, output, computed, effect, viewChild, ElementRef } from '@angular/core';
+import { StudentProfile } from '../../models/student.model';
+import { riskLevel } from '../../utils/student-analytics';
+
+declare var d3: any;
+
+// Each series is drawn on a 0-100% axis so the 1-3 and 1-10 scales share one chart
+const TREND_SERIES = [
+  { key: 'comprehension', label: 'Comprensión', color: '#10b981', max: 3 },
+  { key: 'engagement', label: 'Compromiso', color: '#3b82f6', max: 3 },
+  { key: 'score', label: 'Satisfacción', color: '#8b5cf6', max: 10 },
+] as const;
+
+@Component({
+  selector: 'app-student-profile',
+  templateUrl: './student-profile.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class StudentProfileComponent {
+  profile = input.required<StudentProfile>();
+  closed = output<void>();
+
+  readonly series = TREND_SERIES;
+  risk = computed(() => riskLevel(this.profile().riskScore));
+  ticketsNewestFirst = computed(() => [...this.profile().tickets].reverse());
+
+  trendChart = viewChild<ElementRef>('trendChart');
+
+  constructor() {
+    effect(() => {
+      const element = this.trendChart()?.nativeElement;
+      if (element) this.drawTrendChart(element, this.profile());
+    });
+  }
+
+  formatDate(date: Date): string {
+    return date.toLocaleDateString('es-ES');
+  }
+
+  private drawTrendChart(element: HTMLElement, profile: StudentProfile) {
+    d3.select(element).selectAll('*').remove();
+    if (profile.tickets.length < 2) {
+      d3.select(element).html('<p class="text-gray-500 py-4">Se necesitan al menos dos tickets para mostrar tendencias.</p>');
+      return;
+    }
+
+    const margin = { top: 10, right: 20, bottom: 30, left: 40 };
+    const width = (element.getBoundingClientRect().width || 600) - margin.left - margin.right;
+    const height = 220 - margin.top - margin.bottom;
+
+    const svg = d3.select(element).append("svg")
+        .attr("width", width + margin.left + margin.right)
+        .attr("height", height + margin.top + margin.bottom)
+        .append("g")
+        .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleTime().range([0, width]).domain(d3.extent(profile.tickets, (t: any) => t.date));
+    const y = d3.scaleLinear().range([height, 0]).domain([0, 1]);
+    svg.append("g").attr("transform", `translate(0,${height})`).call(d3.axisBottom(x).ticks(5).tickFormat(d3.timeFormat("%d/%m")));
+    svg.append("g").call(d3.axisLeft(y).ticks(4).tickFormat(d3.format(".0%")));
+
+    for (const serie of TREND_SERIES) {
+      const points = profile.tickets
+        .filter(t => t[serie.key] !== null)
+        .map(t => ({ date: t.date, value: (t[serie.key] as number) / serie.max }));
+      const line = d3.line().x((d: any) => x(d.date)).y((d: any) => y(d.value));
+      svg.append("path").datum(points).attr("fill", "none").attr("stroke", serie.color).attr("stroke-width", 2).attr("d", line);
+      svg.selectAll(null).data(points).enter().append("circle")
+          .attr("cx", (d: any) => x(d.date)).attr("cy", (d: any) => y(d.value)).attr("r", 3).attr("fill", serie.color);
+    }
+  }
+}
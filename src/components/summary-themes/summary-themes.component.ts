@@ -0,0 +1,14 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import { SummaryTheme } from '../../models/summary.model';
+
+@Component({
+  selector: 'app-summary-themes',
+  templateUrl: './summary-themes.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class SummaryThemesComponent {
+  themes = input.required<SummaryTheme[]>();
+
+  maxCount = computed(() => Math.max(1, ...this.themes().map(t => t.count)));
+}
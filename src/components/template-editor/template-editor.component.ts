@@ -0,0 +1,97 @@
+import { Component, ChangeDetectionStrategy, inject, signal, output, computed } from '@angular/core';
+import { LessonTemplatesService } from '../../services/lesson-templates.service';
+import { LessonPlanTemplate, TemplateField, TemplateSection, TemplateSectionFormat } from '../../models/lesson-template.model';
+import { createTemplate, createTemplateField, createTemplateSection } from '../../utils/lesson-templates';
+
+@Component({
+  selector: 'app-template-editor',
+  templateUrl: './template-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class TemplateEditorComponent {
+  private templatesService = inject(LessonTemplatesService);
+  closed = output<void>();
+
+  draft = signal<LessonPlanTemplate[]>(structuredClone(this.templatesService.templates()));
+  selectedIndex = signal(0);
+  selected = computed(() => this.draft()[this.selectedIndex()] ?? null);
+
+  addTemplate() {
+    this.draft.update(templates => [...templates, createTemplate()]);
+    this.selectedIndex.set(this.draft().length - 1);
+  }
+
+  duplicateTemplate() {
+    const template = this.selected();
+    if (!template) return;
+    this.draft.update(templates => [...templates, { ...structuredClone(template), id: crypto.randomUUID(), name: `${template.name} (copia)` }]);
+    this.selectedIndex.set(this.draft().length - 1);
+  }
+
+  removeTemplate() {
+    if (this.draft().length <= 1) return;
+    this.draft.update(templates => templates.filter((_, i) => i !== this.selectedIndex()));
+    this.selectedIndex.set(0);
+  }
+
+  updateTemplate(changes: Partial<LessonPlanTemplate>) {
+    const index = this.selectedIndex();
+    this.draft.update(templates => templates.map((t, i) => i === index ? { ...t, ...changes } : t));
+  }
+
+  onTemplateInput(event: Event, field: 'name' | 'description' | 'systemPrompt') {
+    this.updateTemplate({ [field]: (event.target as HTMLInputElement).value });
+  }
+
+  addSection() {
+    this.updateTemplate({ sections: [...this.selected()!.sections, createTemplateSection()] });
+  }
+
+  removeSection(index: number) {
+    this.updateTemplate({ sections: this.selected()!.sections.filter((_, i) => i !== index) });
+  }
+
+  moveSection(index: number, offset: -1 | 1) {
+    const sections = [...this.selected()!.sections];
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    this.updateTemplate({ sections });
+  }
+
+  onSectionInput(event: Event, index: number, field: 'title' | 'format' | 'columns' | 'prompt') {
+    const value = (event.target as HTMLInputElement).value;
+    const changes: Partial<TemplateSection> =
+      field === 'format' ? { format: value as TemplateSectionFormat }
+      : field === 'columns' ? { columns: value.split(',').map(c => c.trim()).filter(Boolean) }
+      : { [field]: value };
+    this.updateTemplate({ sections: this.selected()!.sections.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  }
+
+  addField() {
+    this.updateTemplate({ fields: [...this.selected()!.fields, createTemplateField()] });
+  }
+
+  removeField(index: number) {
+    this.updateTemplate({ fields: this.selected()!.fields.filter((_, i) => i !== index) });
+  }
+
+  onFieldInput(event: Event, index: number, field: 'label' | 'required') {
+    const target = event.target as HTMLInputElement;
+    const changes: Partial<TemplateField> = field === 'required' ? { required: target.checked } : { label: target.value };
+    this.updateTemplate({ fields: this.selected()!.fields.map((f, i) => i === index ? { ...f, ...changes } : f) });
+  }
+
+  resetToDefaults() {
+    if (!confirm('¿Restaurar las plantillas predeterminadas? Se perderán tus plantillas personalizadas.')) return;
+    this.templatesService.resetToDefaults();
+    this.draft.set(structuredClone(this.templatesService.templates()));
+    this.selectedIndex.set(0);
+  }
+
+  save() {
+    this.templatesService.save(this.draft().filter(t => t.sections.length > 0));
+    this.closed.emit();
+  }
+}
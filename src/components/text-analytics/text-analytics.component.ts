@@ -0,0 +1,79 @@
+import { Component, ChangeDetectionStrategy, inject, input, signal, computed, effect, viewChild, ElementRef } from '@angular/core';
+import { TicketData } from '../../models/ticket-data.model';
+import { COLUMN_ROLES, ColumnRole } from '../../models/column-mapping.model';
+import { Keyword } from '../../models/text-analytics.model';
+import { DataService } from '../../services/data.service';
+import { analyzeText } from '../../utils/text-analytics';
+
+declare var d3: any;
+
+const TEXT_ROLES: ColumnRole[] = ['learning', 'confusion', 'question', 'suggestion'];
+
+// Keyword frequencies and groups of similar answers, computed locally without calling a model
+@Component({
+  selector: 'app-text-analytics',
+  templateUrl: './text-analytics.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class TextAnalyticsComponent {
+  private dataService = inject(DataService);
+
+  data = input.required<TicketData[]>();
+
+  roles = computed(() => COLUMN_ROLES.filter(def => TEXT_ROLES.includes(def.role) && this.dataService.isMapped(def.role)));
+  selectedRole = signal<ColumnRole>('confusion');
+  activeRole = computed(() => {
+    const roles = this.roles();
+    return roles.find(def => def.role === this.selectedRole()) ?? roles[0] ?? null;
+  });
+
+  analysis = computed(() => {
+    const role = this.activeRole()?.role;
+    if (!role) return null;
+    const answers = this.data()
+      .map(row => ({ row: row.rowNumber, text: String(this.dataService.value(row, role) ?? '').trim() }))
+      .filter(answer => answer.text);
+    return analyzeText(answers);
+  });
+
+  keywordChart = viewChild<ElementRef>('keywordChart');
+
+  constructor() {
+    effect(() => {
+      const element = this.keywordChart()?.nativeElement;
+      if (element) this.drawChart(element, this.analysis()?.keywords ?? []);
+    });
+  }
+
+  private drawChart(element: HTMLElement, keywords: Keyword[]) {
+    d3.select(element).selectAll('*').remove();
+    if (!keywords.length) {
+      d3.select(element).html('<p class="text-gray-500 py-4">No hay palabras que se repitan en estas respuestas.</p>');
+      return;
+    }
+
+    const margin = { top: 10, right: 30, bottom: 30, left: 110 };
+    const width = (element.getBoundingClientRect().width || 500) - margin.left - margin.right;
+    const height = keywords.length * 24;
+
+    const svg = d3.select(element).append("svg")
+        .attr("width", width + margin.left + margin.right)
+        .attr("height", height + margin.top + margin.bottom)
+        .append("g")
+        .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const y = d3.scaleBand().range([0, height]).padding(0.15).domain(keywords.map(k => k.term));
+    const x = d3.scaleLinear().range([0, width]).domain([0, d3.max(keywords, (k: Keyword) => k.answers)]);
+    svg.append("g").call(d3.axisLeft(y));
+    svg.append("g").attr("transform", `translate(0,${height})`).call(d3.axisBottom(x).ticks(5).tickFormat(d3.format("d")));
+
+    svg.selectAll(".bar").data(keywords).enter().append("rect")
+        .attr("y", (k: Keyword) => y(k.term))
+        .attr("height", y.bandwidth())
+        .attr("x", 0)
+        .attr("width", (k: Keyword) => x(k.answers))
+        .attr("fill", "#7c3aed")
+        .append("title").text((k: Keyword) => `${k.term}: ${k.answers} respuestas`);
+  }
+}
@@ -0,0 +1,51 @@
+import { Component, ChangeDetectionStrategy, inject, signal, computed } from '@angular/core';
+import { UsageService } from '../../services/usage.service';
+import { UsageTotals } from '../../models/usage.model';
+
+const DAYS_SHOWN = 14;
+
+@Component({
+  selector: 'app-usage-summary',
+  templateUrl: './usage-summary.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  standalone: true,
+})
+export class UsageSummaryComponent {
+  usageService = inject(UsageService);
+  cacheMessage = signal<string | null>(null);
+
+  days = computed(() => this.usageService.byDay().slice(0, DAYS_SHOWN));
+  materias = this.usageService.byMateria;
+  spentToday = computed(() => this.usageService.spentToday());
+  budgetShare = computed(() => {
+    const budget = this.usageService.settings().dailyTokenBudget;
+    return budget ? Math.min(100, Math.round(this.spentToday() / budget * 100)) : null;
+  });
+
+  format(tokens: number): string {
+    return tokens.toLocaleString('es-ES');
+  }
+
+  total(totals: UsageTotals): string {
+    return `${totals.estimated ? '≈ ' : ''}${this.format(totals.inputTokens + totals.outputTokens)}`;
+  }
+
+  async clearCache() {
+    try {
+      await this.usageService.clearCache();
+      this.cacheMessage.set('Se vació la caché: las próximas solicitudes se enviarán al modelo.');
+    } catch (error) {
+      this.cacheMessage.set('No se pudo vaciar la caché.');
+      console.error("Could not clear the response cache:", error);
+    }
+  }
+
+  async clearLedger() {
+    if (!confirm('¿Borrar el registro de uso? Los totales volverán a cero.')) return;
+    try {
+      await this.usageService.clearLedger();
+    } catch (error) {
+      console.error("Could not clear the usage ledger:", error);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { ColumnRole } from './column-mapping.model';
+
+export interface QuizItem {
+  type: 'multipleChoice' | 'open';
+  question: string;
+  options: string[]; // Empty for open items
+  answer: string; // Correct option, or a model answer for open items
+  explanation: string;
+}
+
+export interface RubricLevel {
+  level: string;
+  description: string;
+  points: number;
+}
+
+export interface RubricCriterion {
+  criterion: string;
+  levels: RubricLevel[];
+}
+
+// Help text the model writes to focus each open exit-ticket question on the next topic
+export type ExitTicketFocus = Partial<Record<'learning' | 'confusion' | 'question' | 'suggestion', string>>;
+
+export interface Assessment {
+  title: string;
+  quiz: QuizItem[];
+  rubric: RubricCriterion[];
+  exitTicketFocus: ExitTicketFocus;
+}
+
+export type ExitTicketQuestionType = 'multipleChoice' | 'shortText' | 'paragraph' | 'scale';
+
+// Question of the next exit ticket; `role` is the column it fills once responses are imported
+export interface ExitTicketQuestion {
+  role: ColumnRole;
+  title: string;
+  description: string;
+  type: ExitTicketQuestionType;
+  options: string[];
+  required: boolean;
+}
@@ -0,0 +1,98 @@
+export type ColumnRole =
+  | 'timestamp'
+  | 'email'
+  | 'subject'
+  | 'section'
+  | 'learning'
+  | 'confusion'
+  | 'question'
+  | 'comprehension'
+  | 'suggestion'
+  | 'engagement'
+  | 'score';
+
+export type ColumnMapping = Record<ColumnRole, string | null>;
+
+// Multiple-choice roles whose answers are scored
+export type ScaleRole = 'comprehension' | 'engagement';
+
+// Score of each answer option of the scaled roles, from 1 (lowest) to 3 (highest)
+export type AnswerScales = Record<ScaleRole, Record<string, number>>;
+
+export interface ColumnRoleDefinition {
+  role: ColumnRole;
+  label: string;
+  required: boolean;
+  // Full header texts that match exactly once normalized
+  aliases: string[];
+  // Word stems used for fuzzy matching of reworded or translated headers
+  keywords: string[];
+}
+
+export interface ParsedSheet {
+  sourceKey: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  parseErrors?: { row: number, message: string }[]; // Rows the CSV parser could not read cleanly
+  excludedRows?: number[]; // Sheet rows the teacher left out in the import report
+  // Cells corrected in the import report, keyed by "row|header"; `rows` keeps the values as fetched
+  cellFixes?: Record<string, string>;
+}
+
+export const COLUMN_ROLES: ColumnRoleDefinition[] = [
+  {
+    role: 'timestamp', label: 'Marca temporal', required: true,
+    aliases: ['Timestamp', 'Marca temporal'],
+    keywords: ['timestamp', 'marca temporal', 'fecha', 'date', 'hora'],
+  },
+  {
+    role: 'email', label: 'Correo del estudiante', required: true,
+    aliases: ['Email Address', 'Dirección de correo electrónico'],
+    keywords: ['email', 'e-mail', 'correo', 'mail'],
+  },
+  {
+    role: 'subject', label: 'Materia', required: true,
+    aliases: ['Materia'],
+    keywords: ['materia', 'asignatura', 'subject', 'course', 'curso'],
+  },
+  {
+    role: 'section', label: 'Paralelo', required: true,
+    aliases: ['Paralelo'],
+    keywords: ['paralelo', 'seccion', 'section', 'grupo', 'group'],
+  },
+  {
+    role: 'learning', label: 'Aprendizaje principal', required: false,
+    aliases: ['¿Cuál es el aprendizaje más importante que te llevas de la clase de hoy?'],
+    keywords: ['aprend', 'learn', 'takeaway'],
+  },
+  {
+    role: 'confusion', label: 'Punto confuso', required: false,
+    aliases: ['¿Qué punto de la clase te resultó más confuso o te dejó con dudas?'],
+    keywords: ['confus', 'duda', 'unclear', 'muddiest'],
+  },
+  {
+    role: 'question', label: 'Pregunta para la próxima clase', required: false,
+    aliases: ['¿Tienes alguna pregunta que te gustaría que sea respondida la siguiente clase?'],
+    keywords: ['pregunta', 'question'],
+  },
+  {
+    role: 'comprehension', label: 'Nivel de comprensión', required: false,
+    aliases: ['Sobre tu nivel de comprensión de la clase de hoy, marca una opción:'],
+    keywords: ['comprension', 'entendi', 'understanding', 'comprehension'],
+  },
+  {
+    role: 'suggestion', label: 'Sugerencia de ayuda', required: false,
+    aliases: ['¿Cómo puedo ayudarte a comprender mejor el tema avanzado?'],
+    keywords: ['ayud', 'sugerencia', 'suggest', 'help', 'mejorar'],
+  },
+  {
+    role: 'engagement', label: 'Compromiso / participación', required: false,
+    aliases: ['Pensando en tu participación y esfuerzo en la clase de hoy, ¿cómo te autoevaluarías? Marca una opción:'],
+    keywords: ['particip', 'esfuerzo', 'compromet', 'compromiso', 'engagement', 'effort'],
+  },
+  {
+    role: 'score', label: 'Satisfacción (1-10)', required: false,
+    aliases: ['Mi satisfacción con la clase fue... (Califica la clase de hoy en un puntaje del 1 al 10, donde 1 es insatisfecho y 10 es muy satisfecho)'],
+    keywords: ['satisfac', 'puntaje', 'califica', 'score', 'rating', 'rate'],
+  },
+];
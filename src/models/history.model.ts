@@ -0,0 +1,51 @@
+import { FilterState } from './ticket-data.model';
+import { ColumnMapping, ParsedSheet } from './column-mapping.model';
+import { LessonPlanInputs } from './lesson-plan.model';
+import { SummaryTheme } from './summary.model';
+import { PromptVersionRef } from './prompt-library.model';
+
+export type GenerationKind = 'learnings' | 'confused' | 'questions' | 'suggestions' | 'lessonPlan' | 'studentGuide' | 'assessment';
+
+export const GENERATION_KIND_LABELS: Record<GenerationKind, string> = {
+  learnings: 'Aprendizajes Clave',
+  confused: 'Puntos Confusos',
+  questions: 'Preguntas Pendientes',
+  suggestions: 'Sugerencias de Ayuda',
+  lessonPlan: 'Plan de Clase',
+  studentGuide: 'Guía del Estudiante',
+  assessment: 'Evaluación Formativa',
+};
+
+// A saved state of a lesson plan or guide; the first one is the text as generated
+export interface ContentVersion {
+  id: string;
+  createdAt: number;
+  label: string;
+  raw: string;
+}
+
+export interface GenerationRecord {
+  id: string;
+  kind: GenerationKind;
+  title: string;
+  createdAt: number;
+  materia: string;
+  paralelo: string;
+  filters: FilterState;
+  lessonInputs: LessonPlanInputs | null;
+  provider: string;
+  model: string;
+  raw: string; // Latest version
+  themes: SummaryTheme[] | null;
+  versions?: ContentVersion[]; // Absent until the content is first edited
+  promptVersion?: PromptVersionRef; // Prompt library version it was generated with; absent for assessments
+}
+
+// Snapshot of the working session, restored after a page refresh
+export interface SessionSnapshot {
+  sheet: ParsedSheet;
+  mapping: ColumnMapping;
+  sourceLabel: string;
+  filters: FilterState;
+  panels: Partial<Record<GenerationKind, { raw: string, themes: SummaryTheme[] | null, recordId: string | null, sheetRows?: number }>>;
+}
@@ -0,0 +1,12 @@
+import { ColumnRole } from './column-mapping.model';
+
+export type ImportIssueKind = 'malformedRow' | 'invalidDate' | 'blankRequired' | 'scoreOutOfRange' | 'unknownOption' | 'duplicate';
+
+export interface ImportIssue {
+  row: number; // Sheet row, counting the header as row 1
+  kind: ImportIssueKind;
+  role: ColumnRole | null; // Column the problem is in; null for problems with the whole row
+  value: string;
+  message: string;
+  blocking: boolean; // The row cannot be used until it is fixed or excluded
+}
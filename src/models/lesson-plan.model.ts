@@ -0,0 +1,12 @@
+// Fields entered in the "Detalles de la Próxima Clase" modal
+export interface LessonPlanInputs {
+  nextTopic: string;
+  numStudents: string;
+  classDuration: string;
+  materiaOutcome: string;
+  unitOutcome: string;
+  classProduct: string;
+  // Absent on plans generated before templates existed
+  templateId?: string;
+  templateFields?: Record<string, string>;
+}
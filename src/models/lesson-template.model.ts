@@ -0,0 +1,25 @@
+export type TemplateSectionFormat = 'text' | 'table';
+
+// Extra input the teacher fills in the lesson-plan modal when this template is selected
+export interface TemplateField {
+  id: string;
+  label: string;
+  required: boolean;
+}
+
+export interface TemplateSection {
+  id: string;
+  title: string;
+  format: TemplateSectionFormat;
+  columns: string[]; // Only used by table sections
+  prompt: string; // Instruction fragment sent when this section is generated
+}
+
+export interface LessonPlanTemplate {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  fields: TemplateField[];
+  sections: TemplateSection[];
+}
@@ -0,0 +1,47 @@
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock',
+};
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+export interface LlmSettings {
+  provider: LlmProviderId | null;
+  model: string;
+  apiKey: string;
+  // Only used by the OpenAI-compatible provider (e.g. a local Ollama or llama.cpp server)
+  baseUrl: string;
+}
+
+// Token counts of one call, as reported by the provider
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmRequestOptions {
+  // Aborting the signal ends the request or stream with an error
+  signal?: AbortSignal;
+  // JSON Schema the response must follow; providers switch to their JSON output mode
+  jsonSchema?: object;
+  // Called with the call's token counts when the provider reports them
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+// What LlmService accepts on top of the provider options
+export interface LlmCallOptions extends Omit<LlmRequestOptions, 'onUsage'> {
+  forceRefresh?: boolean; // Skip the response cache and replace its entry
+  materia?: string; // Materia the call is attributed to in the usage ledger
+  onCached?: () => void; // Called when the answer comes from the cache instead of the model
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  generateContent(userQuery: string, systemPrompt: string, options?: LlmRequestOptions): Promise<string>;
+  // Yields text chunks as they arrive
+  generateContentStream(userQuery: string, systemPrompt: string, options?: LlmRequestOptions): AsyncIterable<string>;
+}
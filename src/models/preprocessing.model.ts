@@ -0,0 +1,23 @@
+export interface PreprocessingSettings {
+  // Words that carry no content on their own ("nada", "profe", "dudas"...); answers made only of them are dropped
+  lexicon: string[];
+  // Word overlap (0-1) above which two answers count as the same one
+  similarityThreshold: number;
+  // Approximate tokens of responses sent per request; larger sets are summarized in blocks
+  contextBudgetTokens: number;
+  // Order answers by local keyword clusters before sending them, so the model starts from those groups
+  preGroup: boolean;
+}
+
+export interface ResponseGroup {
+  text: string; // First answer of the group, as written
+  rows: number[]; // Sheet rows of every answer in the group
+}
+
+export interface PreprocessingStats {
+  total: number; // Non-empty answers in the filter
+  used: number; // Answers that reached the model, duplicates included
+  unique: number; // Groups after collapsing near-duplicates
+  lowInformation: number; // Answers dropped by the lexicon
+  chunks: number; // Requests the responses were split into
+}
@@ -0,0 +1,47 @@
+import { ColumnRole } from './column-mapping.model';
+
+export type RuleOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'containsAny'
+  | 'isEmpty'
+  | 'lessThan'
+  | 'lessOrEqual'
+  | 'greaterThan'
+  | 'greaterOrEqual';
+
+export type RuleSeverity = 1 | 2 | 3;
+
+export interface RuleCondition {
+  role: ColumnRole;
+  operator: RuleOperator;
+  // Comma-separated keywords for `containsAny`, a number for comparisons
+  value: string;
+}
+
+export interface PriorityRule {
+  id: string;
+  // May reference answers as `{role}`, e.g. "Satisfacción Baja ({score}/10)"
+  label: string;
+  severity: RuleSeverity;
+  combinator: 'AND' | 'OR';
+  conditions: RuleCondition[];
+  enabled: boolean;
+}
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  equals: 'es igual a',
+  notEquals: 'es distinto de',
+  containsAny: 'contiene alguna palabra',
+  isEmpty: 'está vacío',
+  lessThan: '<',
+  lessOrEqual: '≤',
+  greaterThan: '>',
+  greaterOrEqual: '≥',
+};
+
+export const RULE_SEVERITY_LABELS: Record<RuleSeverity, string> = {
+  1: 'Baja',
+  2: 'Media',
+  3: 'Alta',
+};
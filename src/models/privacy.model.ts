@@ -0,0 +1,15 @@
+export interface PrivacySettings {
+  redact: boolean; // Pseudonymize emails, names and phone numbers before any model call
+  aggregatesOnly: boolean; // Never send individual answers, only aggregated statistics
+  reviewBeforeSending: boolean; // Show each payload and wait for confirmation
+}
+
+// Exactly what goes to the provider, after redaction
+export interface LlmPayload {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  userQuery: string;
+  redactions: number;
+  createdAt: number;
+}
@@ -0,0 +1,35 @@
+// Generations whose prompts the teacher can edit
+export type PromptKind = 'learnings' | 'confused' | 'questions' | 'suggestions' | 'lessonPlan' | 'studentGuide';
+
+export interface FewShotExample {
+  input: string;
+  output: string;
+}
+
+// A saved prompt; versions are never edited in place, so a record's version id always means the same text
+export interface PromptVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  systemPrompt: string; // Template with {variables}
+  userPrompt: string;
+  examples: FewShotExample[];
+}
+
+export interface PromptEntry {
+  activeVersionId: string;
+  versions: PromptVersion[]; // The built-in version comes first
+}
+
+export type PromptLibrary = Record<PromptKind, PromptEntry>;
+
+export interface PromptVariable {
+  name: string; // Written as {name} in a template
+  description: string;
+}
+
+// Which prompt produced a generated artifact
+export interface PromptVersionRef {
+  id: string;
+  name: string;
+}
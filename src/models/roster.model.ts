@@ -0,0 +1,21 @@
+export interface RosterStudent {
+  email: string; // Lowercased, used to match submissions
+  name: string;
+  materia: string;
+  paralelo: string;
+}
+
+export interface SessionAttendance {
+  session: string; // yyyy-mm-dd
+  materia: string;
+  paralelo: string;
+  enrolled: number;
+  responded: number;
+  rate: number; // 0-100
+}
+
+export interface NonRespondent {
+  student: RosterStudent;
+  missedStreak: number; // Consecutive sessions without a ticket, counting back from the latest one
+  lastResponse: string | null; // Session of the student's latest ticket in this class
+}
@@ -0,0 +1,43 @@
+import { TicketData } from './ticket-data.model';
+
+// Why a single ticket deserves attention; severity ranges from 1 (low) to 3 (high)
+export interface TicketFlag {
+  reason: string;
+  severity: number;
+  matchedRules: string[];
+}
+
+export interface StudentTicket {
+  row: TicketData;
+  date: Date;
+  session: string;
+  comprehension: number | null;
+  engagement: number | null;
+  score: number | null;
+  flag: TicketFlag | null;
+}
+
+export interface StudentProfile {
+  email: string;
+  name: string;
+  classes: { materia: string, paralelo: string }[];
+  tickets: StudentTicket[]; // Oldest first
+  missedSessions: string[];
+  totalSessions: number;
+  riskScore: number; // 0-100
+  riskFactors: string[];
+}
+
+// A student with a flagged ticket in the current filter, as listed for priority attention
+export interface PriorityStudent {
+  email: string;
+  name: string;
+  materia: string;
+  paralelo: string;
+  fecha: string;
+  razon: string;
+  badgeColor: string;
+  riskScore: number;
+  severity: number;
+  matchedRules: string[];
+}
@@ -0,0 +1,11 @@
+export interface SummaryQuote {
+  text: string;
+  row: number; // Sheet row the quote came from (header is row 1)
+}
+
+export interface SummaryTheme {
+  title: string;
+  description: string;
+  count: number;
+  quotes: SummaryQuote[];
+}
@@ -0,0 +1,16 @@
+export interface Keyword {
+  term: string; // Most common spelling of the term in the answers
+  answers: number; // Answers that use it
+  score: number; // Summed TF-IDF weight
+}
+
+export interface AnswerCluster<T> {
+  keywords: string[]; // Highest-weighted terms of the cluster, used as its label
+  items: T[];
+}
+
+export interface TextAnalysis<T> {
+  answered: number;
+  keywords: Keyword[];
+  clusters: AnswerCluster<T>[];
+}
@@ -4,6 +4,7 @@ export interface TicketData {
   'Email Address': string;
   Materia: string;
   Paralelo: string;
+  rowNumber: number; // Row in the source sheet, counting the header as row 1
   [key: string]: any; // For dynamic question keys
 }
 
@@ -11,3 +12,10 @@ export interface FilterOptions {
     materias: string[];
     paralelos: string[];
 }
+
+export interface FilterState {
+    startDate: string;
+    endDate: string;
+    materia: string;
+    paralelo: string;
+}
@@ -0,0 +1,40 @@
+import { LlmUsage } from './llm-provider.model';
+
+export interface UsageSettings {
+  cacheEnabled: boolean;
+  cacheTtlHours: number; // Cached answers older than this are requested again
+  dailyTokenBudget: number; // Warn before going over it; 0 disables the warning
+  largeRequestTokens: number; // Ask before sending a request estimated above this; 0 never asks
+}
+
+// A model answer stored for identical requests; `id` is the cache key
+export interface CachedResponse {
+  id: string;
+  createdAt: number;
+  provider: string;
+  model: string;
+  text: string; // As the model returned it, so redacted data stays redacted
+  usage: LlmUsage | null;
+}
+
+// One model call in the usage ledger
+export interface UsageEntry {
+  id: string;
+  createdAt: number;
+  provider: string;
+  model: string;
+  materia: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // The provider reported no counts, so they come from the text length
+  cached: boolean; // Served from the cache; no tokens were spent
+}
+
+export interface UsageTotals {
+  key: string; // Day (yyyy-mm-dd) or Materia
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // Some of the counts are estimates
+}
@@ -1,10 +1,21 @@
-
-import { Injectable, inject } from '@angular/core';
+import { Injectable, inject, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { firstValueFrom } from 'rxjs';
 import { TicketData } from '../models/ticket-data.model';
+import { AnswerScales, COLUMN_ROLES, ColumnMapping, ColumnRole, ParsedSheet, ScaleRole } from '../models/column-mapping.model';
+import { autoMatchColumns, normalizeHeader } from '../utils/column-matching';
+import { DateFormat, detectDateFormat } from '../utils/date-parsing';
+import { mappedValue, toTicketRows } from '../utils/ticket-analytics';
+import { ImportIssue } from '../models/import-report.model';
+import { fixedRows, validateSheet } from '../utils/import-validation';
+import { DEFAULT_ANSWER_SCALES, SCALE_ROLES, scaleScore } from '../utils/ticket-scales';
 
 declare var Papa: any;
+declare var XLSX: any;
+
+const MAPPING_STORAGE_PREFIX = 'columnMapping:';
+const SCALES_STORAGE_PREFIX = 'answerScales:';
+const DATE_FORMAT_STORAGE_KEY = 'dateFormat';
 
 @Injectable({
   providedIn: 'root'
@@ -12,71 +23,215 @@ declare var Papa: any;
 export class DataService {
   private http = inject(HttpClient);
 
-  // Column headers from the original form
-  public readonly learningIndex = "¿Cuál es el aprendizaje más importante que te llevas de la clase de hoy?";
-  public readonly confusedIndex = "¿Qué punto de la clase te resultó más confuso o te dejó con dudas?";
-  public readonly questionIndex = "¿Tienes alguna pregunta que te gustaría que sea respondida la siguiente clase?"; 
-  public readonly comprehensionIndex = "Sobre tu nivel de comprensión de la clase de hoy, marca una opción:  ";
-  public readonly suggestionIndex = "¿Cómo puedo ayudarte a comprender mejor el tema avanzado?"; 
-  public readonly engagementIndex = "Pensando en tu participación y esfuerzo en la clase de hoy, ¿cómo te autoevaluarías? Marca una opción:";
-  public readonly scoreIndex = "Mi satisfacción con la clase fue... (Califica la clase de hoy en un puntaje del 1 al 10, donde 1 es insatisfecho y 10 es muy satisfecho)";
-
-  public readonly requiredHeaders = [
-    "Timestamp", "Email Address", "Materia", "Paralelo",
-    this.learningIndex, this.confusedIndex, this.questionIndex, 
-    this.comprehensionIndex, this.suggestionIndex, this.engagementIndex, this.scoreIndex
-  ];
-
-  async loadDataFromSheet(url: string): Promise<TicketData[]> {
+  // Active mapping from column roles to the headers of the loaded sheet
+  readonly mapping = signal<ColumnMapping>(this.emptyMapping());
+  // Scores of the multiple-choice answers of the loaded sheet
+  readonly scales = signal<AnswerScales>(DEFAULT_ANSWER_SCALES);
+  // Day/month order of the timestamp column; 'auto' decides per sheet
+  readonly dateFormat = signal<DateFormat>(this.loadDateFormat());
+
+  readonly mappedColumns = computed(() => {
+    const mapping = this.mapping();
+    return COLUMN_ROLES
+      .filter(def => mapping[def.role])
+      .map(def => ({ role: def.role, header: mapping[def.role] as string }));
+  });
+
+  async loadDataFromSheet(url: string): Promise<ParsedSheet> {
     if (!url) {
       throw new Error("Por favor, introduce una URL válida.");
     }
 
     let csvUrl = '';
+    let sourceKey = '';
     const match = url.match(/\/d\/([a-zA-Z0-9-_]+)/);
-    
+
     if (match && match[1]) {
         const sheetId = match[1];
         const gidMatch = url.match(/gid=(\d+)/);
         const gid = gidMatch ? gidMatch[1] : '0';
         csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${gid}`;
+        sourceKey = `sheet:${sheetId}:${gid}`;
     } else {
         throw new Error("Formato de URL no válido. Por favor, usa la URL estándar de Google Sheet.");
     }
-    
+
     const csvData = await firstValueFrom(this.http.get(csvUrl, { responseType: 'text' }));
-    
+    return this.parseCsv(csvData, sourceKey);
+  }
+
+  async loadDataFromFile(file: File): Promise<ParsedSheet> {
+    if (!file) {
+      throw new Error("Por favor, selecciona un archivo.");
+    }
+
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'csv') {
+      return this.parseCsv(await file.text());
+    }
+    if (extension === 'xlsx') {
+      // Convert the first worksheet to CSV so both formats share the same parsing path
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+      if (!firstSheet) {
+        throw new Error("El archivo de Excel no contiene hojas.");
+      }
+      return this.parseCsv(XLSX.utils.sheet_to_csv(firstSheet, { blankrows: false }));
+    }
+    throw new Error("Formato de archivo no soportado. Usa un archivo .csv o .xlsx exportado de Google Forms.");
+  }
+
+  /**
+   * Returns the saved mapping for this sheet when it still fits its headers, otherwise an
+   * automatic match. `confirmed` is false when the teacher should review the mapping first,
+   * including when answers of a scored column have no score and were never reviewed.
+   */
+  resolveMapping(sheet: ParsedSheet): { mapping: ColumnMapping, confirmed: boolean } {
+    const autoMapping = autoMatchColumns(sheet.headers, COLUMN_ROLES);
+    const saved = this.loadSavedMapping(sheet.sourceKey);
+    if (saved) {
+      const mapping = { ...autoMapping };
+      for (const def of COLUMN_ROLES) {
+        const header = saved[def.role];
+        if (header === null) mapping[def.role] = null;
+        else if (header && sheet.headers.includes(header)) mapping[def.role] = header;
+      }
+      return { mapping, confirmed: this.isMappingComplete(mapping) && this.scalesCover(sheet, mapping) };
+    }
+    const allMatched = COLUMN_ROLES.every(def => autoMapping[def.role]);
+    return { mapping: autoMapping, confirmed: allMatched && this.scalesCover(sheet, autoMapping) };
+  }
+
+  /** Saved answer scores of this sheet, or those of the original form. */
+  resolveScales(sheet: ParsedSheet): AnswerScales {
+    const saved = this.loadSavedScales(sheet.sourceKey);
+    return saved ? { ...DEFAULT_ANSWER_SCALES, ...saved } : DEFAULT_ANSWER_SCALES;
+  }
+
+  saveScales(sourceKey: string, scales: AnswerScales) {
+    localStorage.setItem(SCALES_STORAGE_PREFIX + sourceKey, JSON.stringify(scales));
+  }
+
+  /** Distinct answers of the column mapped to a scored role, most frequent first. */
+  answerOptions(sheet: ParsedSheet, mapping: ColumnMapping, role: ScaleRole): string[] {
+    const header = mapping[role];
+    if (!header) return [];
+    const counts = new Map<string, number>();
+    for (const row of fixedRows(sheet)) {
+      const answer = String(row[header] ?? '').trim();
+      if (answer) counts.set(answer, (counts.get(answer) ?? 0) + 1);
+    }
+    return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)!);
+  }
+
+  isMappingComplete(mapping: ColumnMapping): boolean {
+    return COLUMN_ROLES.every(def => !def.required || mapping[def.role]);
+  }
+
+  saveMapping(sourceKey: string, mapping: ColumnMapping) {
+    localStorage.setItem(MAPPING_STORAGE_PREFIX + sourceKey, JSON.stringify(mapping));
+  }
+
+  setDateFormat(format: DateFormat) {
+    this.dateFormat.set(format);
+    localStorage.setItem(DATE_FORMAT_STORAGE_KEY, format);
+  }
+
+  resolveDateFormat(sheet: ParsedSheet, mapping: ColumnMapping): Exclude<DateFormat, 'auto'> {
+    const format = this.dateFormat();
+    return format === 'auto' ? detectDateFormat(fixedRows(sheet).map(row => row[mapping.timestamp!])) : format;
+  }
+
+  /** Row-level problems of a mapped sheet, for the import report. */
+  validate(sheet: ParsedSheet, mapping: ColumnMapping): ImportIssue[] {
+    return validateSheet(sheet, mapping, this.resolveDateFormat(sheet, mapping), this.resolveScales(sheet));
+  }
+
+  /** Applies a mapping to a parsed sheet and activates it for every `value()` lookup. */
+  toTicketData(sheet: ParsedSheet, mapping: ColumnMapping): TicketData[] {
+    if (!this.isMappingComplete(mapping)) {
+      throw new Error("Asigna todas las columnas obligatorias antes de continuar.");
+    }
+
+    const processedData = toTicketRows(sheet, mapping, this.resolveDateFormat(sheet, mapping));
+
+    if (processedData.length === 0) {
+      throw new Error("No quedan filas válidas. Revisa la asignación de columnas y las filas excluidas.");
+    }
+
+    this.mapping.set(mapping);
+    this.scales.set(this.resolveScales(sheet));
+    return processedData;
+  }
+
+  isMapped(role: ColumnRole): boolean {
+    return !!this.mapping()[role];
+  }
+
+  /** Reads the answer a row holds for a role, honoring the active column mapping. */
+  value(row: TicketData, role: ColumnRole): any {
+    return mappedValue(row, role, this.mapping());
+  }
+
+  private parseCsv(csvData: string, sourceKey?: string): Promise<ParsedSheet> {
     return new Promise((resolve, reject) => {
       Papa.parse(csvData, {
         header: true,
         skipEmptyLines: true,
         complete: (results: any) => {
-          if (results.errors.length > 0) {
-            return reject(new Error("No se pudo analizar el archivo CSV. " + results.errors[0].message));
-          }
           if (results.data.length === 0) {
             return reject(new Error("La hoja de cálculo está vacía o no tiene datos válidos."));
           }
 
-          const headers = Object.keys(results.data[0]);
-          const hasAllRequired = this.requiredHeaders.every(header => headers.includes(header));
-          if (!hasAllRequired) {
-            return reject(new Error("La estructura de la hoja de cálculo no coincide con el formato esperado. Por favor, revisa los encabezados de las columnas."));
-          }
-          
-          const processedData: TicketData[] = results.data
-            .filter((row: any) => row.Materia) // Ensure essential data exists
-            .map((d: any) => ({
-              ...d,
-              Timestamp: new Date(d.Timestamp),
-            }));
-            
-          resolve(processedData);
+          const headers: string[] = results.meta.fields ?? Object.keys(results.data[0]);
+          resolve({
+            // Files have no stable id, so their mapping is remembered by header signature
+            sourceKey: sourceKey ?? `headers:${headers.map(normalizeHeader).join('|')}`,
+            headers,
+            rows: results.data,
+            // Malformed rows are reported to the teacher instead of rejecting the whole file
+            parseErrors: results.errors
+              .filter((error: any) => typeof error.row === 'number')
+              .map((error: any) => ({ row: error.row + 2, message: `No se pudo leer la fila completa (${error.message}).` })),
+          });
         },
         error: (err: any) => {
-          reject(new Error("No se pudo cargar la hoja de cálculo. Asegúrate de que la URL sea correcta y que la hoja sea pública. " + err.message));
+          reject(new Error("No se pudieron leer los datos. Asegúrate de que la URL o el archivo sean correctos. " + err.message));
         }
       });
     });
   }
-}
\ No newline at end of file
+
+  private scalesCover(sheet: ParsedSheet, mapping: ColumnMapping): boolean {
+    if (this.loadSavedScales(sheet.sourceKey)) return true;
+    const scales = DEFAULT_ANSWER_SCALES;
+    return SCALE_ROLES.every(role => this.answerOptions(sheet, mapping, role).every(answer => scaleScore(scales[role], answer) !== null));
+  }
+
+  private loadSavedMapping(sourceKey: string): Partial<ColumnMapping> | null {
+    try {
+      const stored = localStorage.getItem(MAPPING_STORAGE_PREFIX + sourceKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private loadSavedScales(sourceKey: string): Partial<AnswerScales> | null {
+    try {
+      const stored = localStorage.getItem(SCALES_STORAGE_PREFIX + sourceKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private loadDateFormat(): DateFormat {
+    const stored = localStorage.getItem(DATE_FORMAT_STORAGE_KEY);
+    return stored === 'dmy' || stored === 'mdy' || stored === 'ymd' ? stored : 'auto';
+  }
+
+  private emptyMapping(): ColumnMapping {
+    return Object.fromEntries(COLUMN_ROLES.map(def => [def.role, null])) as ColumnMapping;
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { StorageService } from './storage.service';
+import { ContentVersion, GenerationRecord, SessionSnapshot } from '../models/history.model';
+
+const SESSION_KEY = 'current';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryService {
+  private storage = inject(StorageService);
+
+  // Newest first
+  readonly records = signal<GenerationRecord[]>([]);
+
+  constructor() {
+    this.storage.getAll<GenerationRecord>('generations')
+      .then(records => this.records.set(records.sort((a, b) => b.createdAt - a.createdAt)))
+      .catch(error => console.error("Could not load generation history:", error));
+  }
+
+  async add(record: Omit<GenerationRecord, 'id' | 'createdAt'>): Promise<GenerationRecord> {
+    const saved: GenerationRecord = { ...record, id: crypto.randomUUID(), createdAt: Date.now() };
+    await this.storage.put('generations', saved);
+    this.records.update(records => [saved, ...records]);
+    return saved;
+  }
+
+  async duplicate(record: GenerationRecord): Promise<GenerationRecord> {
+    const { id, createdAt, ...copy } = record;
+    return this.add({ ...copy, title: `${record.title} (copia)` });
+  }
+
+  versions(record: GenerationRecord): ContentVersion[] {
+    return record.versions ?? [{ id: record.id, createdAt: record.createdAt, label: 'Generado', raw: record.raw }];
+  }
+
+  /** Saves edited content as the record's latest version, keeping earlier ones. */
+  async addVersion(id: string, label: string, raw: string): Promise<GenerationRecord | undefined> {
+    const record = this.records().find(r => r.id === id);
+    if (!record) return undefined;
+    const version: ContentVersion = { id: crypto.randomUUID(), createdAt: Date.now(), label, raw };
+    const updated: GenerationRecord = { ...record, raw, versions: [...this.versions(record), version] };
+    await this.storage.put('generations', updated);
+    this.records.update(records => records.map(r => r.id === id ? updated : r));
+    return updated;
+  }
+
+  async remove(id: string) {
+    await this.storage.delete('generations', id);
+    this.records.update(records => records.filter(r => r.id !== id));
+  }
+
+  loadSession(): Promise<SessionSnapshot | undefined> {
+    return this.storage.get<SessionSnapshot>('session', SESSION_KEY);
+  }
+
+  async saveSession(snapshot: SessionSnapshot) {
+    try {
+      await this.storage.put('session', snapshot, SESSION_KEY);
+    } catch (error) {
+      console.error("Could not save the session:", error);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable, signal } from '@angular/core';
+import { LessonPlanTemplate } from '../models/lesson-template.model';
+import { DEFAULT_LESSON_TEMPLATES } from '../utils/lesson-templates';
+
+const TEMPLATES_STORAGE_KEY = 'lessonPlanTemplates';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LessonTemplatesService {
+  readonly templates = signal<LessonPlanTemplate[]>(this.loadTemplates());
+
+  save(templates: LessonPlanTemplate[]) {
+    this.templates.set(templates);
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  }
+
+  resetToDefaults() {
+    localStorage.removeItem(TEMPLATES_STORAGE_KEY);
+    this.templates.set(structuredClone(DEFAULT_LESSON_TEMPLATES));
+  }
+
+  // Falls back to the first template when the id is unknown, e.g. after it was deleted
+  find(id: string | undefined): LessonPlanTemplate {
+    const templates = this.templates();
+    return templates.find(t => t.id === id) ?? templates[0] ?? DEFAULT_LESSON_TEMPLATES[0];
+  }
+
+  private loadTemplates(): LessonPlanTemplate[] {
+    try {
+      const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch {
+      // Fall back to the defaults when storage is unavailable or corrupted
+    }
+    return structuredClone(DEFAULT_LESSON_TEMPLATES);
+  }
+}
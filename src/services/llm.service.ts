@@ -0,0 +1,163 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { DEFAULT_BASE_URL, DEFAULT_MODELS, LlmCallOptions, LlmProvider, LlmRequestOptions, LlmSettings, LlmUsage } from '../models/llm-provider.model';
+import { LlmPayload } from '../models/privacy.model';
+import { PrivacyService } from './privacy.service';
+import { UsageService } from './usage.service';
+import { GeminiProvider } from './providers/gemini.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { MockProvider } from './providers/mock.provider';
+import { estimateTokens } from '../utils/response-preprocessing';
+
+const SETTINGS_STORAGE_KEY = 'llmSettings';
+
+// Longest redaction token, e.g. "[TELEFONO_123]", held back while streaming
+const MAX_TOKEN_LENGTH = 16;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LlmService {
+  private privacyService = inject(PrivacyService);
+  private usageService = inject(UsageService);
+  readonly settings = signal<LlmSettings>(this.loadSettings());
+
+  // Null when the selected provider lacks what it needs, which disables the AI features
+  readonly provider = computed<LlmProvider | null>(() => {
+    const settings = this.settings();
+    const model = settings.model || (settings.provider ? DEFAULT_MODELS[settings.provider] : '');
+    switch (settings.provider) {
+      case 'gemini': {
+        const apiKey = settings.apiKey || this.envApiKey();
+        return apiKey ? new GeminiProvider(apiKey, model) : null;
+      }
+      case 'openai-compatible':
+        return settings.baseUrl ? new OpenAiCompatibleProvider(settings.baseUrl, model, settings.apiKey) : null;
+      case 'mock':
+        return new MockProvider();
+      default:
+        return null;
+    }
+  });
+
+  readonly isConfigured = computed(() => this.provider() !== null);
+
+  updateSettings(settings: LlmSettings) {
+    this.settings.set(settings);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  async generateContent(userQuery: string, systemPrompt: string, options: LlmCallOptions = {}): Promise<string> {
+    const { provider, payload, cached, requestOptions, restore, complete } = await this.prepare(userQuery, systemPrompt, options);
+    if (cached !== null) return restore(cached);
+    const text = await provider.generateContent(payload.userQuery, payload.systemPrompt, requestOptions);
+    complete(text, true);
+    return restore(text);
+  }
+
+  async *generateContentStream(userQuery: string, systemPrompt: string, options: LlmCallOptions = {}): AsyncIterable<string> {
+    const { provider, payload, cached, requestOptions, restore, complete } = await this.prepare(userQuery, systemPrompt, options);
+    // A cached answer arrives as a single chunk
+    const stream = cached !== null ? [cached] : provider.generateContentStream(payload.userQuery, payload.systemPrompt, requestOptions);
+    let text = '';
+    let pending = '';
+    let finished = false;
+    try {
+      for await (const chunk of stream) {
+        text += chunk;
+        pending += chunk;
+        // Hold back a trailing "[..." that may be the start of a token split across chunks
+        const open = pending.lastIndexOf('[');
+        const cut = open >= 0 && !pending.includes(']', open) && pending.length - open < MAX_TOKEN_LENGTH ? open : pending.length;
+        if (cut > 0) {
+          yield restore(pending.slice(0, cut));
+          pending = pending.slice(cut);
+        }
+      }
+      finished = true;
+      if (pending) yield restore(pending);
+    } finally {
+      // A stopped stream has still spent its tokens, but only complete answers are cached
+      complete(text, finished);
+    }
+  }
+
+  /**
+   * Every model call goes through here: redact personal data, answer from the cache when an
+   * identical request was made recently, else check the token budget and let the teacher
+   * review the payload.
+   */
+  private async prepare(userQuery: string, systemPrompt: string, options: LlmCallOptions) {
+    const provider = this.provider();
+    if (!provider) {
+      throw new Error("No hay un proveedor de IA configurado. Revisa la Configuración de IA.");
+    }
+    const redactor = this.privacyService.createRedactor();
+    const restore = (text: string) => redactor ? redactor.restore(text) : text;
+    const payload: LlmPayload = {
+      provider: provider.id,
+      model: provider.model,
+      systemPrompt: redactor ? redactor.redact(systemPrompt) : systemPrompt,
+      userQuery: redactor ? redactor.redact(userQuery) : userQuery,
+      redactions: redactor?.count ?? 0,
+      createdAt: Date.now(),
+    };
+    const ledgerEntry = { provider: provider.id, model: provider.model, materia: options.materia ?? '' };
+
+    // Nothing leaves the browser for a cache hit, so neither the budget nor the review apply
+    const cached = options.forceRefresh ? null : await this.usageService.cachedResponse(payload, options.jsonSchema);
+    if (cached) {
+      options.onCached?.();
+      this.usageService.record({ ...ledgerEntry, inputTokens: 0, outputTokens: 0, estimated: false, cached: true });
+      return { provider, payload, cached: cached.text, requestOptions: {}, restore, complete: () => {} };
+    }
+
+    const inputTokens = estimateTokens(payload.systemPrompt + payload.userQuery);
+    if (!this.usageService.confirmRequest(inputTokens)) {
+      throw new Error("Envío cancelado: la solicitud supera el límite de tokens configurado.");
+    }
+    const approved = await this.privacyService.review(payload, options.signal);
+    if (options.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (!approved) throw new Error("Envío cancelado: la solicitud no se envió al modelo.");
+    this.privacyService.lastPayload.set(payload);
+
+    let usage: LlmUsage | null = null;
+    const requestOptions: LlmRequestOptions = { signal: options.signal, jsonSchema: options.jsonSchema, onUsage: reported => usage = reported };
+    // Records the call with the provider's counts, or estimates when it reported none
+    const complete = (text: string, finished: boolean) => {
+      this.usageService.record({
+        ...ledgerEntry,
+        inputTokens: usage?.inputTokens ?? inputTokens,
+        outputTokens: usage?.outputTokens ?? estimateTokens(text),
+        estimated: !usage,
+        cached: false,
+      });
+      if (finished && text.trim()) this.usageService.cacheResponse(payload, options.jsonSchema, text, usage);
+    };
+    return { provider, payload, cached: null, requestOptions, restore, complete };
+  }
+
+  private loadSettings(): LlmSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch {
+      // Fall through to defaults when storage is unavailable or corrupted
+    }
+    // Keep the original behavior: use Gemini when the environment provides a key
+    return {
+      provider: this.envApiKey() ? 'gemini' : null,
+      model: DEFAULT_MODELS['gemini'],
+      apiKey: '',
+      baseUrl: DEFAULT_BASE_URL,
+    };
+  }
+
+  private envApiKey(): string {
+    try {
+      // The API key is sourced from environment variables, as per the directive.
+      return process.env.API_KEY || '';
+    } catch {
+      return ''; // `process` is not defined outside the AI Studio build
+    }
+  }
+}
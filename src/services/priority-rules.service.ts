@@ -0,0 +1,32 @@
+import { Injectable, signal } from '@angular/core';
+import { PriorityRule } from '../models/priority-rule.model';
+import { DEFAULT_PRIORITY_RULES, upgradeLegacyConditions } from '../utils/priority-rules';
+
+const RULES_STORAGE_KEY = 'priorityRules';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PriorityRulesService {
+  readonly rules = signal<PriorityRule[]>(this.loadRules());
+
+  save(rules: PriorityRule[]) {
+    this.rules.set(rules);
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  }
+
+  resetToDefaults() {
+    localStorage.removeItem(RULES_STORAGE_KEY);
+    this.rules.set(structuredClone(DEFAULT_PRIORITY_RULES));
+  }
+
+  private loadRules(): PriorityRule[] {
+    try {
+      const stored = localStorage.getItem(RULES_STORAGE_KEY);
+      if (stored) return upgradeLegacyConditions(JSON.parse(stored));
+    } catch {
+      // Fall back to the defaults when storage is unavailable or corrupted
+    }
+    return structuredClone(DEFAULT_PRIORITY_RULES);
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { LlmPayload, PrivacySettings } from '../models/privacy.model';
+import { Redactor, namesFromEmails, namesFromFullNames } from '../utils/privacy';
+
+const PRIVACY_STORAGE_KEY = 'privacySettings';
+
+const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = { redact: true, aggregatesOnly: false, reviewBeforeSending: false };
+
+interface PendingReview {
+  payload: LlmPayload;
+  resolve: (approved: boolean) => void;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PrivacyService {
+  readonly settings = signal<PrivacySettings>(this.loadSettings());
+  // Names of the students in the loaded sheet, redacted wherever they appear
+  readonly knownNames = signal<string[]>([]);
+  readonly lastPayload = signal<LlmPayload | null>(null);
+
+  private readonly reviewQueue = signal<PendingReview[]>([]);
+  readonly pendingReview = computed(() => this.reviewQueue()[0]?.payload ?? null);
+
+  updateSettings(settings: PrivacySettings) {
+    this.settings.set(settings);
+    localStorage.setItem(PRIVACY_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  setStudentEmails(emails: string[], fullNames: string[] = []) {
+    this.knownNames.set([...new Set([...namesFromEmails(emails), ...namesFromFullNames(fullNames)])]);
+  }
+
+  createRedactor(): Redactor | null {
+    return this.settings().redact ? new Redactor(this.knownNames()) : null;
+  }
+
+  /** Resolves immediately unless reviews are enabled, then waits for the teacher's decision. */
+  review(payload: LlmPayload, signal?: AbortSignal): Promise<boolean> {
+    if (!this.settings().reviewBeforeSending) return Promise.resolve(true);
+    return new Promise(resolve => {
+      const entry: PendingReview = { payload, resolve };
+      signal?.addEventListener('abort', () => this.settle(entry, false), { once: true });
+      this.reviewQueue.update(queue => [...queue, entry]);
+    });
+  }
+
+  decide(approved: boolean) {
+    const entry = this.reviewQueue()[0];
+    if (entry) this.settle(entry, approved);
+  }
+
+  private settle(entry: PendingReview, approved: boolean) {
+    this.reviewQueue.update(queue => queue.filter(e => e !== entry));
+    entry.resolve(approved);
+  }
+
+  private loadSettings(): PrivacySettings {
+    try {
+      const stored = localStorage.getItem(PRIVACY_STORAGE_KEY);
+      if (stored) return { ...DEFAULT_PRIVACY_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      // Fall through to defaults when storage is unavailable or corrupted
+    }
+    return { ...DEFAULT_PRIVACY_SETTINGS };
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable, signal } from '@angular/core';
+import { PromptKind, PromptLibrary, PromptVersion } from '../models/prompt-library.model';
+import { PROMPT_KINDS, defaultPromptLibrary, defaultPromptVersion } from '../utils/prompt-library';
+
+const LIBRARY_STORAGE_KEY = 'promptLibrary';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PromptLibraryService {
+  readonly library = signal<PromptLibrary>(this.loadLibrary());
+
+  save(library: PromptLibrary) {
+    this.library.set(library);
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+  }
+
+  resetToDefaults() {
+    localStorage.removeItem(LIBRARY_STORAGE_KEY);
+    this.library.set(defaultPromptLibrary());
+  }
+
+  // Falls back to the built-in version when the active one was deleted
+  active(kind: PromptKind): PromptVersion {
+    const entry = this.library()[kind];
+    return entry.versions.find(v => v.id === entry.activeVersionId) ?? entry.versions[0] ?? defaultPromptVersion(kind);
+  }
+
+  private loadLibrary(): PromptLibrary {
+    const library = defaultPromptLibrary();
+    try {
+      const stored: Partial<PromptLibrary> = JSON.parse(localStorage.getItem(LIBRARY_STORAGE_KEY) ?? '{}');
+      // The built-in version is always rebuilt, so a change to the defaults reaches saved libraries
+      for (const kind of PROMPT_KINDS) {
+        const entry = stored[kind];
+        if (!entry) continue;
+        library[kind] = {
+          activeVersionId: entry.activeVersionId,
+          versions: [library[kind].versions[0], ...entry.versions.filter(v => v.id !== library[kind].versions[0].id)],
+        };
+      }
+    } catch {
+      // Fall back to the defaults when storage is unavailable or corrupted
+    }
+    return library;
+  }
+}
@@ -0,0 +1,63 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { LlmProvider, LlmRequestOptions } from '../../models/llm-provider.model';
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContent(userQuery: string, systemPrompt: string, options: LlmRequestOptions = {}): Promise<string> {
+    try {
+      const response = await this.ai.models.generateContent({
+        model: this.model,
+        contents: userQuery,
+        config: this.config(systemPrompt, options),
+      });
+
+      this.reportUsage(response.usageMetadata, options);
+      return response.text ?? '';
+    } catch (error) {
+      console.error("Error calling Gemini API:", error);
+      throw new Error(`Failed to generate content: ${error}`);
+    }
+  }
+
+  async *generateContentStream(userQuery: string, systemPrompt: string, options: LlmRequestOptions = {}): AsyncIterable<string> {
+    let stream;
+    try {
+      stream = await this.ai.models.generateContentStream({
+        model: this.model,
+        contents: userQuery,
+        config: this.config(systemPrompt, options),
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error("Error calling Gemini API:", error);
+      throw new Error(`Failed to generate content: ${error}`);
+    }
+
+    // Every chunk carries the running counts; the last one has the totals
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usageMetadata ?? usage;
+      if (chunk.text) yield chunk.text;
+    }
+    this.reportUsage(usage, options);
+  }
+
+  private reportUsage(usage: GenerateContentResponseUsageMetadata | undefined, options: LlmRequestOptions) {
+    if (usage?.promptTokenCount === undefined) return;
+    options.onUsage?.({ inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount ?? 0 });
+  }
+
+  private config(systemPrompt: string, options: LlmRequestOptions) {
+    return {
+      systemInstruction: systemPrompt,
+      abortSignal: options.signal,
+      ...(options.jsonSchema ? { responseMimeType: 'application/json', responseJsonSchema: options.jsonSchema } : {}),
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { LlmProvider, LlmRequestOptions } from '../../models/llm-provider.model';
+import { ASSESSMENT_JSON_SCHEMA } from '../../utils/assessment';
+
+/**
+ * Offline provider that echoes a summary of the input. The output only depends on the
+ * query, which makes it useful for demos and for checking the UI without a model.
+ */
+export class MockProvider implements LlmProvider {
+  readonly id = 'mock';
+  readonly model = 'mock';
+
+  async generateContent(userQuery: string, systemPrompt: string, options: LlmRequestOptions = {}): Promise<string> {
+    return this.buildResponse(userQuery, systemPrompt, options);
+  }
+
+  async *generateContentStream(userQuery: string, systemPrompt: string, options: LlmRequestOptions = {}): AsyncIterable<string> {
+    // Emit word by word with a short pause so streaming behaves like a real model
+    for (const word of this.buildResponse(userQuery, systemPrompt, options).split(/(?<=\s)/)) {
+      if (options.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      await new Promise(resolve => setTimeout(resolve, 15));
+      yield word;
+    }
+  }
+
+  private buildResponse(userQuery: string, systemPrompt: string, options: LlmRequestOptions): string {
+    if (options.jsonSchema === ASSESSMENT_JSON_SCHEMA) return this.buildAssessmentResponse(userQuery);
+    if (options.jsonSchema) return this.buildJsonResponse(userQuery);
+
+    const lines = userQuery
+      .split(/\n|---/)
+      .map(line => line.trim())
+      .filter(line => line && !line.endsWith(':'));
+    const sample = [...new Set(lines)].slice(0, 5);
+
+    return [
+      `### Respuesta simulada`,
+      ``,
+      `Instrucción recibida: ${systemPrompt.length} caracteres. Entrada: ${lines.length} líneas.`,
+      ``,
+      ...sample.map((line, i) => `${i + 1}. ${line.slice(0, 160)}`),
+    ].join('\n');
+  }
+
+  private buildAssessmentResponse(userQuery: string): string {
+    const topic = userQuery.match(/\*\*Tema:\*\*\s*(.+)/)?.[1]?.trim() ?? 'el tema';
+    return JSON.stringify({
+      title: `Evaluación simulada: ${topic}`,
+      quiz: [
+        { type: 'multipleChoice', question: `¿Qué afirmación describe mejor ${topic}?`, options: ['Opción A', 'Opción B', 'Opción C', 'Opción D'], answer: 'Opción A', explanation: 'Respuesta simulada.' },
+        { type: 'open', question: `Explica con tus palabras ${topic}.`, options: [], answer: 'Respuesta modelo simulada.', explanation: 'Evalúa con la rúbrica.' },
+      ],
+      rubric: [{
+        criterion: 'Claridad de la explicación',
+        levels: [
+          { level: 'Logrado', description: 'Explica con precisión y ejemplos.', points: 3 },
+          { level: 'En proceso', description: 'Explica la idea general con imprecisiones.', points: 2 },
+          { level: 'Inicial', description: 'La explicación es incorrecta o incompleta.', points: 1 },
+        ],
+      }],
+      exitTicketFocus: { learning: `Piensa en lo que aprendiste sobre ${topic}.` },
+    });
+  }
+
+  // Turns each distinct `[row] answer` line of the query into its own theme
+  private buildJsonResponse(userQuery: string): string {
+    const answers = [...userQuery.matchAll(/^\[(\d+)\]\s*(.+)$/gm)].map(m => ({ row: Number(m[1]), text: m[2].trim() }));
+    const groups = new Map<string, { row: number, text: string }[]>();
+    for (const answer of answers) {
+      const key = answer.text.toLowerCase();
+      groups.set(key, [...(groups.get(key) ?? []), answer]);
+    }
+    const themes = [...groups.values()]
+      .sort((a, b) => b.length - a.length)
+      .slice(0, 5)
+      .map(group => ({
+        title: group[0].text.slice(0, 60),
+        description: 'Tema simulado a partir de las respuestas.',
+        count: group.length,
+        quotes: group.slice(0, 3),
+      }));
+    return JSON.stringify({ themes });
+  }
+}
@@ -0,0 +1,84 @@
+import { LlmProvider, LlmRequestOptions } from '../../models/llm-provider.model';
+
+/** Talks to any server exposing the OpenAI `/chat/completions` API, such as Ollama or llama.cpp. */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(private baseUrl: string, readonly model: string, private apiKey: string) {}
+
+  async generateContent(userQuery: string, systemPrompt: string, options: LlmRequestOptions = {}): Promise<string> {
+    const response = await this.post(userQuery, systemPrompt, false, options);
+    const body = await response.json();
+    this.reportUsage(body.usage, options);
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+
+  async *generateContentStream(userQuery: string, systemPrompt: string, options: LlmRequestOptions = {}): AsyncIterable<string> {
+    const response = await this.post(userQuery, systemPrompt, true, options);
+    if (!response.body) {
+      throw new Error("The server did not return a stream.");
+    }
+
+    // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        const event = JSON.parse(data);
+        // With include_usage the server sends the counts in a last event without choices
+        if (event.usage) this.reportUsage(event.usage, options);
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  private async post(userQuery: string, systemPrompt: string, stream: boolean, options: LlmRequestOptions): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: this.headers(),
+        signal: options.signal,
+        body: JSON.stringify({
+          model: this.model,
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+          ...(options.jsonSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: options.jsonSchema } } } : {}),
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userQuery },
+          ],
+        }),
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error("Error calling OpenAI-compatible API:", error);
+      throw new Error(`Failed to reach ${this.baseUrl}: ${error}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to generate content: HTTP ${response.status} ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private reportUsage(usage: { prompt_tokens?: number, completion_tokens?: number } | undefined, options: LlmRequestOptions) {
+    if (typeof usage?.prompt_tokens !== 'number') return;
+    options.onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 });
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable, signal } from '@angular/core';
+import { PreprocessingSettings } from '../models/preprocessing.model';
+import { DEFAULT_PREPROCESSING_SETTINGS } from '../utils/response-preprocessing';
+
+const PREPROCESSING_STORAGE_KEY = 'responsePreprocessing';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ResponsePreprocessingService {
+  readonly settings = signal<PreprocessingSettings>(this.loadSettings());
+
+  save(settings: PreprocessingSettings) {
+    this.settings.set(settings);
+    localStorage.setItem(PREPROCESSING_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  resetToDefaults() {
+    localStorage.removeItem(PREPROCESSING_STORAGE_KEY);
+    this.settings.set(structuredClone(DEFAULT_PREPROCESSING_SETTINGS));
+  }
+
+  private loadSettings(): PreprocessingSettings {
+    try {
+      const stored = localStorage.getItem(PREPROCESSING_STORAGE_KEY);
+      if (stored) return { ...DEFAULT_PREPROCESSING_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      // Fall back to the defaults when storage is unavailable or corrupted
+    }
+    return structuredClone(DEFAULT_PREPROCESSING_SETTINGS);
+  }
+}
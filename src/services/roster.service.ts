@@ -0,0 +1,57 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { RosterStudent } from '../models/roster.model';
+import { parseRoster } from '../utils/roster';
+
+declare var Papa: any;
+
+const ROSTER_STORAGE_KEY = 'classRoster';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RosterService {
+  readonly students = signal<RosterStudent[]>(this.loadRoster());
+  // Sessions in a row without a ticket before an enrolled student is reported and prioritized
+  readonly minMissed = signal(2);
+
+  // Real names by lowercased email, replacing names guessed from the address
+  readonly namesByEmail = computed(() => new Map(this.students().map(student => [student.email, student.name])));
+
+  /** Replaces the roster with a CSV of email, name, Materia and Paralelo. Returns the rows skipped. */
+  async importCsv(file: File): Promise<number> {
+    const results = Papa.parse(await file.text(), { header: true, skipEmptyLines: true });
+    if (!results.data.length) {
+      throw new Error("La lista de clase está vacía.");
+    }
+    const { students, skipped } = parseRoster(results.meta.fields ?? Object.keys(results.data[0]), results.data);
+    if (!students.length) {
+      throw new Error("La lista de clase no tiene estudiantes con correo, Materia y Paralelo.");
+    }
+    this.save(students);
+    return skipped;
+  }
+
+  nameFor(email: string | undefined): string | undefined {
+    return email ? this.namesByEmail().get(email.trim().toLowerCase()) : undefined;
+  }
+
+  save(students: RosterStudent[]) {
+    this.students.set(students);
+    localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(students));
+  }
+
+  clear() {
+    localStorage.removeItem(ROSTER_STORAGE_KEY);
+    this.students.set([]);
+  }
+
+  private loadRoster(): RosterStudent[] {
+    try {
+      const stored = localStorage.getItem(ROSTER_STORAGE_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch {
+      // Start without a roster when storage is unavailable or corrupted
+    }
+    return [];
+  }
+}
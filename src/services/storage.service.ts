@@ -0,0 +1,63 @@
+import { Injectable } from '@angular/core';
+
+const DB_NAME = 'exit-ticket-analysis';
+const DB_VERSION = 2;
+
+// Object stores keyed by `id` unless listed in OUT_OF_LINE_KEY_STORES
+const STORES = ['generations', 'session', 'responseCache', 'usage'];
+const OUT_OF_LINE_KEY_STORES = ['session'];
+
+/** Thin promise wrapper over the app's IndexedDB database. */
+@Injectable({
+  providedIn: 'root'
+})
+export class StorageService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getAll<T>(store: string): Promise<T[]> {
+    return this.run(store, 'readonly', s => s.getAll());
+  }
+
+  async get<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+    return this.run(store, 'readonly', s => s.get(key));
+  }
+
+  async put<T>(store: string, value: T, key?: IDBValidKey): Promise<void> {
+    await this.run(store, 'readwrite', s => s.put(value, key));
+  }
+
+  async delete(store: string, key: IDBValidKey): Promise<void> {
+    await this.run(store, 'readwrite', s => s.delete(key));
+  }
+
+  async clear(store: string): Promise<void> {
+    await this.run(store, 'readwrite', s => s.clear());
+  }
+
+  private async run<T>(store: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(store, mode).objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          for (const store of STORES) {
+            if (db.objectStoreNames.contains(store)) continue;
+            db.createObjectStore(store, OUT_OF_LINE_KEY_STORES.includes(store) ? undefined : { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
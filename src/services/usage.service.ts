@@ -0,0 +1,125 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { StorageService } from './storage.service';
+import { LlmUsage } from '../models/llm-provider.model';
+import { LlmPayload } from '../models/privacy.model';
+import { CachedResponse, UsageEntry, UsageSettings } from '../models/usage.model';
+import { DEFAULT_USAGE_SETTINGS, budgetWarning, cacheKey, isExpired, tokensSpent, usageDay, usageTotals } from '../utils/usage';
+
+const USAGE_SETTINGS_STORAGE_KEY = 'usageSettings';
+
+/** Response cache and token ledger of the model calls made from this browser. */
+@Injectable({
+  providedIn: 'root'
+})
+export class UsageService {
+  private storage = inject(StorageService);
+  readonly settings = signal<UsageSettings>(this.loadSettings());
+
+  // Newest first
+  readonly entries = signal<UsageEntry[]>([]);
+  readonly byDay = computed(() => usageTotals(this.entries(), e => usageDay(e.createdAt)).sort((a, b) => b.key.localeCompare(a.key)));
+  readonly byMateria = computed(() => usageTotals(this.entries(), e => e.materia));
+
+  // Day on which the teacher chose to keep going past the daily budget
+  private budgetAcknowledgedOn = '';
+
+  constructor() {
+    this.storage.getAll<UsageEntry>('usage')
+      .then(entries => this.entries.set(entries.sort((a, b) => b.createdAt - a.createdAt)))
+      .catch(error => console.error("Could not load the usage ledger:", error));
+    this.purgeExpired();
+  }
+
+  save(settings: UsageSettings) {
+    this.settings.set(settings);
+    localStorage.setItem(USAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  resetToDefaults() {
+    localStorage.removeItem(USAGE_SETTINGS_STORAGE_KEY);
+    this.settings.set({ ...DEFAULT_USAGE_SETTINGS });
+  }
+
+  spentToday(): number {
+    const today = usageDay(Date.now());
+    return tokensSpent(this.entries().filter(e => usageDay(e.createdAt) === today));
+  }
+
+  /** Asks the teacher before a large request or one that goes over today's budget. */
+  confirmRequest(requestTokens: number): boolean {
+    const today = usageDay(Date.now());
+    const settings = this.settings();
+    const budget = this.budgetAcknowledgedOn === today ? 0 : settings.dailyTokenBudget;
+    const spent = this.spentToday();
+    const warning = budgetWarning({ ...settings, dailyTokenBudget: budget }, requestTokens, spent);
+    if (!warning) return true;
+    if (!confirm(`${warning} ¿Enviar de todos modos?`)) return false;
+    if (budget && spent + requestTokens > budget) this.budgetAcknowledgedOn = today;
+    return true;
+  }
+
+  // Previous answer to an identical request, or null when there is none, it expired or the cache is off
+  async cachedResponse(payload: LlmPayload, jsonSchema?: object): Promise<CachedResponse | null> {
+    const settings = this.settings();
+    if (!settings.cacheEnabled) return null;
+    try {
+      const key = await cacheKey(payload, jsonSchema);
+      const entry = await this.storage.get<CachedResponse>('responseCache', key);
+      if (!entry) return null;
+      if (!isExpired(entry, settings.cacheTtlHours)) return entry;
+      await this.storage.delete('responseCache', key);
+    } catch (error) {
+      console.error("Could not read the response cache:", error);
+    }
+    return null;
+  }
+
+  async cacheResponse(payload: LlmPayload, jsonSchema: object | undefined, text: string, usage: LlmUsage | null) {
+    if (!this.settings().cacheEnabled) return;
+    try {
+      const entry: CachedResponse = { id: await cacheKey(payload, jsonSchema), createdAt: Date.now(), provider: payload.provider, model: payload.model, text, usage };
+      await this.storage.put('responseCache', entry);
+    } catch (error) {
+      console.error("Could not save the response to the cache:", error);
+    }
+  }
+
+  async clearCache() {
+    await this.storage.clear('responseCache');
+  }
+
+  async record(entry: Omit<UsageEntry, 'id' | 'createdAt'>) {
+    const saved: UsageEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    this.entries.update(entries => [saved, ...entries]);
+    try {
+      await this.storage.put('usage', saved);
+    } catch (error) {
+      console.error("Could not save the usage entry:", error);
+    }
+  }
+
+  async clearLedger() {
+    await this.storage.clear('usage');
+    this.entries.set([]);
+  }
+
+  private async purgeExpired() {
+    try {
+      const ttlHours = this.settings().cacheTtlHours;
+      const expired = (await this.storage.getAll<CachedResponse>('responseCache')).filter(entry => isExpired(entry, ttlHours));
+      for (const entry of expired) await this.storage.delete('responseCache', entry.id);
+    } catch (error) {
+      console.error("Could not clean up the response cache:", error);
+    }
+  }
+
+  private loadSettings(): UsageSettings {
+    try {
+      const stored = localStorage.getItem(USAGE_SETTINGS_STORAGE_KEY);
+      if (stored) return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(stored) };
+    } catch {
+      // Fall back to the defaults when storage is unavailable or corrupted
+    }
+    return { ...DEFAULT_USAGE_SETTINGS };
+  }
+}
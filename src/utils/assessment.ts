@@ -0,0 +1,224 @@
+import { Assessment, ExitTicketFocus, ExitTicketQuestion, ExitTicketQuestionType, QuizItem, RubricCriterion } from '../models/assessment.model';
+import { AnswerScales, COLUMN_ROLES, ColumnRole } from '../models/column-mapping.model';
+import { scaleOptions } from './ticket-scales';
+
+export const ASSESSMENT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    quiz: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['multipleChoice', 'open'] },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answer: { type: 'string', description: 'Opción correcta exacta, o respuesta modelo para preguntas abiertas' },
+          explanation: { type: 'string' },
+        },
+        required: ['type', 'question', 'options', 'answer', 'explanation'],
+      },
+    },
+    rubric: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string' },
+          levels: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                level: { type: 'string' },
+                description: { type: 'string' },
+                points: { type: 'number' },
+              },
+              required: ['level', 'description', 'points'],
+            },
+          },
+        },
+        required: ['criterion', 'levels'],
+      },
+    },
+    exitTicketFocus: {
+      type: 'object',
+      properties: {
+        learning: { type: 'string' },
+        confusion: { type: 'string' },
+        question: { type: 'string' },
+        suggestion: { type: 'string' },
+      },
+    },
+  },
+  required: ['title', 'quiz', 'rubric', 'exitTicketFocus'],
+};
+
+export const ASSESSMENT_JSON_INSTRUCTION = "Responde únicamente con un objeto JSON con: \"title\"; \"quiz\": de 4 a 6 preguntas, mezclando \"multipleChoice\" (con 4 \"options\" y la opción correcta exacta en \"answer\") y \"open\" (con \"options\" vacío y una respuesta modelo en \"answer\"), cada una con \"explanation\"; \"rubric\": criterios para las preguntas abiertas, cada uno con 3 o 4 \"levels\" (\"level\", \"description\", \"points\"); y \"exitTicketFocus\": una breve ayuda para cada pregunta del próximo ticket de salida (\"learning\", \"confusion\", \"question\", \"suggestion\") que oriente al estudiante hacia el tema de la próxima clase.";
+
+/** Validates a model response against the assessment schema, or returns null when it is unusable. */
+export function parseAssessment(text: string | null | undefined): Assessment | null {
+  if (!text) return null;
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!parsed || !Array.isArray(parsed.quiz)) return null;
+
+  const strings = (value: any): string[] => Array.isArray(value) ? value.filter((v: any) => typeof v === 'string') : [];
+  const quiz: QuizItem[] = parsed.quiz
+    .filter((item: any) => typeof item?.question === 'string')
+    .map((item: any) => {
+      const options = strings(item.options);
+      return {
+        type: item.type === 'multipleChoice' && options.length >= 2 ? 'multipleChoice' : 'open',
+        question: item.question,
+        options: item.type === 'multipleChoice' ? options : [],
+        answer: String(item.answer ?? ''),
+        explanation: String(item.explanation ?? ''),
+      };
+    });
+  const rubric: RubricCriterion[] = (Array.isArray(parsed.rubric) ? parsed.rubric : [])
+    .filter((c: any) => typeof c?.criterion === 'string' && Array.isArray(c.levels))
+    .map((c: any) => ({
+      criterion: c.criterion,
+      levels: c.levels
+        .filter((l: any) => typeof l?.level === 'string')
+        .map((l: any) => ({ level: l.level, description: String(l.description ?? ''), points: Number(l.points) || 0 })),
+    }));
+  const focus = parsed.exitTicketFocus ?? {};
+  const exitTicketFocus: ExitTicketFocus = {};
+  for (const key of ['learning', 'confusion', 'question', 'suggestion'] as const) {
+    if (typeof focus[key] === 'string') exitTicketFocus[key] = focus[key];
+  }
+
+  return quiz.length ? { title: typeof parsed.title === 'string' ? parsed.title : 'Evaluación Formativa', quiz, rubric, exitTicketFocus } : null;
+}
+
+/** Renders the quiz as Markdown; the answer key and rubric go after a separator when requested. */
+export function assessmentToMarkdown(assessment: Assessment, includeAnswers = true): string {
+  const letter = (i: number) => String.fromCharCode(97 + i);
+  const items = assessment.quiz.map((item, i) => {
+    const options = item.options.map((option, j) => `   - ${letter(j)}) ${option}`).join('\n');
+    return item.type === 'multipleChoice'
+      ? `${i + 1}. ${item.question}\n${options}`
+      : `${i + 1}. ${item.question}\n\n   ______________________________________________`;
+  });
+  let markdown = `## ${assessment.title}\n\n${items.join('\n\n')}`;
+  if (includeAnswers) {
+    const key = assessment.quiz.map((item, i) => `${i + 1}. **${item.answer}** — ${item.explanation}`).join('\n');
+    const rubric = assessment.rubric.map(criterion =>
+      `| ${criterion.criterion} | ${criterion.levels.map(l => `**${l.level} (${l.points})**: ${l.description}`).join('<br>')} |`);
+    markdown += `\n\n---\n\n### Clave de Respuestas\n\n${key}`;
+    if (rubric.length) markdown += `\n\n### Rúbrica\n\n| Criterio | Niveles |\n|---|---|\n${rubric.join('\n')}`;
+  }
+  return markdown;
+}
+
+const EXIT_TICKET_TYPES: Partial<Record<ColumnRole, ExitTicketQuestionType>> = {
+  subject: 'multipleChoice',
+  section: 'multipleChoice',
+  learning: 'paragraph',
+  confusion: 'paragraph',
+  question: 'paragraph',
+  comprehension: 'multipleChoice',
+  suggestion: 'paragraph',
+  engagement: 'multipleChoice',
+  score: 'scale',
+};
+
+/**
+ * Builds the next exit ticket with one question per column role. Titles reuse each role's
+ * canonical header so imported responses map onto the roles automatically, and scaled roles
+ * offer the options the teacher scored.
+ */
+export function buildExitTicket(focus: ExitTicketFocus, materias: string[], paralelos: string[], scales: AnswerScales): ExitTicketQuestion[] {
+  const options: Partial<Record<ColumnRole, string[]>> = {
+    subject: materias,
+    section: paralelos,
+    comprehension: scaleOptions(scales.comprehension),
+    engagement: scaleOptions(scales.engagement),
+    score: Array.from({ length: 10 }, (_, i) => String(i + 1)),
+  };
+  return COLUMN_ROLES
+    .filter(def => EXIT_TICKET_TYPES[def.role])
+    .map(def => ({
+      role: def.role,
+      title: def.aliases[0],
+      description: focus[def.role as keyof ExitTicketFocus] ?? '',
+      // Subjects or sections without known options fall back to a free-text answer
+      type: EXIT_TICKET_TYPES[def.role] === 'multipleChoice' && !options[def.role]?.length ? 'shortText' : EXIT_TICKET_TYPES[def.role]!,
+      options: options[def.role] ?? [],
+      required: def.role !== 'question',
+    }));
+}
+
+const FORMS_CSV_TYPES: Record<ExitTicketQuestionType, string> = {
+  multipleChoice: 'MULTIPLE_CHOICE',
+  shortText: 'TEXT',
+  paragraph: 'PARAGRAPH_TEXT',
+  scale: 'SCALE',
+};
+
+/** One row per question in the column layout used by form-builder add-ons for Google Forms. */
+export function exitTicketToCsv(questions: ExitTicketQuestion[]): string {
+  const maxOptions = Math.max(0, ...questions.map(q => q.type === 'scale' ? 2 : q.options.length));
+  const header = ['Question Type', 'Question Title', 'Help Text', 'Required', ...Array.from({ length: maxOptions }, (_, i) => `Option ${i + 1}`)];
+  const rows = questions.map(q => {
+    const options = q.type === 'scale' ? [q.options[0], q.options[q.options.length - 1]] : q.options;
+    return [FORMS_CSV_TYPES[q.type], q.title, q.description, q.required ? 'TRUE' : 'FALSE', ...options];
+  });
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [header, ...rows].map(row => row.map(v => escape(v ?? '')).join(',')).join('\n');
+}
+
+/**
+ * Google Forms API bodies for the exit ticket: `create` for `forms.create`, which only accepts the
+ * title, and `batchUpdate` for `forms.batchUpdate` on the new form, which adds the description,
+ * collects verified emails and creates every question in order.
+ */
+export function exitTicketToFormsJson(title: string, questions: ExitTicketQuestion[]) {
+  const description = 'Ticket de salida. Las respuestas se pueden importar directamente en la herramienta de análisis.';
+  const createItems = questions.map((q, index) => ({
+    createItem: {
+      location: { index },
+      item: {
+        title: q.title,
+        description: q.description || undefined,
+        questionItem: {
+          question: {
+            required: q.required,
+            ...(q.type === 'multipleChoice' ? { choiceQuestion: { type: 'RADIO', options: q.options.map(value => ({ value })) } }
+              : q.type === 'scale' ? { scaleQuestion: { low: 1, high: 10, lowLabel: 'Insatisfecho', highLabel: 'Muy satisfecho' } }
+              : { textQuestion: { paragraph: q.type === 'paragraph' } }),
+          },
+        },
+      },
+    },
+  }));
+  return {
+    create: { info: { title, documentTitle: title } },
+    batchUpdate: {
+      requests: [
+        { updateFormInfo: { info: { description }, updateMask: 'description' } },
+        { updateSettings: { settings: { emailCollectionType: 'VERIFIED' }, updateMask: 'emailCollectionType' } },
+        ...createItems,
+      ],
+    },
+  };
+}
+
+export function exitTicketToMarkdown(title: string, questions: ExitTicketQuestion[]): string {
+  const items = questions.map((q, i) => {
+    const help = q.description ? `\n\n   _${q.description}_` : '';
+    const answer = q.type === 'multipleChoice' || q.type === 'scale'
+      ? q.options.map(option => `   - [ ] ${option}`).join('\n')
+      : q.type === 'paragraph' ? '   ______________________________________________\n\n   ______________________________________________' : '   ______________________________________________';
+    return `${i + 1}. **${q.title}**${q.required ? ' *' : ''}${help}\n\n${answer}`;
+  });
+  return `## ${title}\n\nCorreo electrónico: ______________________________\n\n${items.join('\n\n')}`;
+}
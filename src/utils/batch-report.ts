@@ -0,0 +1,159 @@
+import { PriorityStudent } from '../models/student.model';
+import { SummaryTheme } from '../models/summary.model';
+import { PreprocessingStats } from '../models/preprocessing.model';
+import { RULE_SEVERITY_LABELS, RuleSeverity } from '../models/priority-rule.model';
+import { ChartData, ChartDatum, SummaryCards } from './ticket-analytics';
+import { SummaryType } from './summary-requests';
+import { themesToMarkdown } from './structured-summary';
+import { escapeHtml } from './safe-markdown';
+
+export interface ClassSummary {
+  type: SummaryType;
+  title: string;
+  themes: SummaryTheme[] | null; // Null when the answer did not validate as structured themes
+  text: string | null; // Model output as returned; null when nothing was summarized
+  note: string | null; // Why the summary is missing, or how its input was filtered
+  stats: PreprocessingStats | null;
+}
+
+// Everything the weekly report shows for one Materia × Paralelo
+export interface ClassReport {
+  materia: string;
+  paralelo: string;
+  startDate: string; // yyyy-mm-dd, empty for no bound
+  endDate: string;
+  generatedAt: string; // ISO timestamp
+  model: string;
+  cards: SummaryCards;
+  charts: ChartData;
+  priorityStudents: PriorityStudent[];
+  summaries: ClassSummary[];
+}
+
+/** File name without extension, safe on every platform, e.g. "Fisica_I-A". */
+export function reportFileName(report: ClassReport): string {
+  const slug = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'Sin_nombre';
+  return `${slug(report.materia)}-${slug(report.paralelo)}`;
+}
+
+export function reportToJson(report: ClassReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function reportToMarkdown(report: ClassReport): string {
+  const lines = [
+    `# Informe semanal: ${report.materia} — Paralelo ${report.paralelo}`,
+    '',
+    `Periodo: ${periodLabel(report)}. Generado el ${new Date(report.generatedAt).toLocaleString('es-ES')} con el modelo ${report.model}.`,
+    '',
+    '## Resumen',
+    '',
+    `- Total de respuestas: ${report.cards.totalResponses}`,
+    `- Satisfacción promedio: ${report.cards.averageScore}`,
+    `- Nivel de comprensión: ${report.cards.averageComprehension}`,
+    '',
+    '## Distribuciones',
+    '',
+    ...chartSections(report.charts).flatMap(([title, data]) => [
+      `### ${title}`,
+      '',
+      ...(data.length ? ['| Categoría | Respuestas |', '| --- | --- |', ...data.map(d => `| ${cell(d.category)} | ${d.count} |`)] : ['Sin datos.']),
+      '',
+    ]),
+    '## Atención Prioritaria',
+    '',
+    ...(report.priorityStudents.length
+      ? [
+          '| Estudiante | Email | Última Fecha | Riesgo (0-100) | Motivo | Severidad |',
+          '| --- | --- | --- | --- | --- | --- |',
+          ...report.priorityStudents.map(s => `| ${cell(s.name)} | ${cell(s.email)} | ${s.fecha} | ${s.riskScore} | ${cell(s.razon)} | ${RULE_SEVERITY_LABELS[s.severity as RuleSeverity]} |`),
+        ]
+      : ['Ningún estudiante requiere atención prioritaria en este periodo.']),
+    '',
+  ];
+  for (const summary of report.summaries) {
+    lines.push(`## ${summary.title}`, '');
+    if (summary.themes) {
+      lines.push(themesToMarkdown(summary.themes), '');
+      for (const theme of summary.themes.filter(t => t.quotes.length)) {
+        lines.push(`**${theme.title}**`, '', ...theme.quotes.map(q => `> [${q.row}] ${q.text}`), '');
+      }
+    } else if (summary.text) {
+      lines.push(summary.text.trim(), '');
+    }
+    if (summary.note) lines.push(`_${summary.note}_`, '');
+  }
+  return lines.join('\n');
+}
+
+/** Standalone page with inline styles, so the report can be mailed or opened offline. */
+export function reportToHtml(report: ClassReport): string {
+  const title = `Informe semanal: ${report.materia} — Paralelo ${report.paralelo}`;
+  const table = (headers: string[], rows: (string | number)[][]) =>
+    `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows
+      .map(row => `<tr>${row.map(value => `<td>${escapeHtml(String(value))}</td>`).join('')}</tr>`)
+      .join('')}</tbody></table>`;
+
+  const summaries = report.summaries.map(summary => {
+    let body = '';
+    if (summary.themes) {
+      body = `<ol>${summary.themes.map(theme => `<li><strong>${escapeHtml(theme.title)}</strong> (${theme.count} respuestas): ${escapeHtml(theme.description)}${theme.quotes.length
+        ? `<ul class="quotes">${theme.quotes.map(q => `<li>[${q.row}] ${escapeHtml(q.text)}</li>`).join('')}</ul>`
+        : ''}</li>`).join('')}</ol>`;
+    } else if (summary.text) {
+      // Unstructured output is shown as plain text; model Markdown is never rendered as HTML here
+      body = `<pre>${escapeHtml(summary.text.trim())}</pre>`;
+    }
+    return `<section><h2>${escapeHtml(summary.title)}</h2>${body}${summary.note ? `<p class="note">${escapeHtml(summary.note)}</p>` : ''}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+h1 { font-size: 1.5rem; } h2 { font-size: 1.2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; margin-top: 2rem; }
+table { border-collapse: collapse; width: 100%; margin: .5rem 0 1rem; font-size: .9rem; }
+th, td { border: 1px solid #e5e7eb; padding: .35rem .5rem; text-align: left; } th { background: #f3f4f6; }
+.cards { display: flex; gap: 1rem; } .card { flex: 1; background: #f9fafb; border-radius: .5rem; padding: .75rem; }
+.card strong { display: block; font-size: 1.4rem; } .quotes { color: #4b5563; font-size: .9rem; }
+.note, .meta { color: #6b7280; font-size: .85rem; } pre { white-space: pre-wrap; font-family: inherit; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Periodo: ${escapeHtml(periodLabel(report))}. Generado el ${escapeHtml(new Date(report.generatedAt).toLocaleString('es-ES'))} con el modelo ${escapeHtml(report.model)}.</p>
+<div class="cards">
+<div class="card">Total de respuestas<strong>${report.cards.totalResponses}</strong></div>
+<div class="card">Satisfacción promedio<strong>${escapeHtml(report.cards.averageScore)}</strong></div>
+<div class="card">Nivel de comprensión<strong>${escapeHtml(report.cards.averageComprehension)}</strong></div>
+</div>
+<h2>Distribuciones</h2>
+${chartSections(report.charts).map(([name, data]) => `<h3>${escapeHtml(name)}</h3>${data.length ? table(['Categoría', 'Respuestas'], data.map(d => [d.category, d.count])) : '<p class="note">Sin datos.</p>'}`).join('\n')}
+<h2>Atención Prioritaria</h2>
+${report.priorityStudents.length
+    ? table(['Estudiante', 'Email', 'Última Fecha', 'Riesgo (0-100)', 'Motivo', 'Severidad'], report.priorityStudents.map(s => [s.name, s.email, s.fecha, s.riskScore, s.razon, RULE_SEVERITY_LABELS[s.severity as RuleSeverity]]))
+    : '<p class="note">Ningún estudiante requiere atención prioritaria en este periodo.</p>'}
+${summaries.join('\n')}
+</body>
+</html>
+`;
+}
+
+function chartSections(charts: ChartData): [string, ChartDatum[]][] {
+  return [['Comprensión', charts.comprehension], ['Compromiso', charts.engagement], ['Satisfacción (1-10)', charts.score]];
+}
+
+function periodLabel(report: ClassReport): string {
+  if (report.startDate && report.endDate) return `del ${report.startDate} al ${report.endDate}`;
+  if (report.startDate) return `desde el ${report.startDate}`;
+  if (report.endDate) return `hasta el ${report.endDate}`;
+  return 'todas las fechas';
+}
+
+// Keeps table cells on one line and stops answers from breaking the Markdown table
+function cell(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+}
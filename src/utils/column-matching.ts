@@ -0,0 +1,44 @@
+import { ColumnMapping, ColumnRoleDefinition } from '../models/column-mapping.model';
+
+const MIN_MATCH_SCORE = 0.5;
+
+/** Lowercases, strips accents/punctuation and collapses whitespace so headers compare reliably. */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function scoreHeader(header: string, definition: ColumnRoleDefinition): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+  if (definition.aliases.some(alias => normalizeHeader(alias) === normalized)) return 1;
+
+  const padded = ` ${normalized}`;
+  const hits = definition.keywords.filter(keyword => padded.includes(` ${normalizeHeader(keyword)}`)).length;
+  return hits ? Math.min(0.9, 0.6 + 0.1 * (hits - 1)) : 0;
+}
+
+/**
+ * Assigns each role to the best-scoring header. Candidates are claimed greedily from the
+ * highest score down so one header never feeds two roles.
+ */
+export function autoMatchColumns(headers: string[], definitions: ColumnRoleDefinition[]): ColumnMapping {
+  const candidates = definitions.flatMap(definition =>
+    headers.map(header => ({ role: definition.role, header, score: scoreHeader(header, definition) }))
+  )
+    .filter(c => c.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const mapping = Object.fromEntries(definitions.map(d => [d.role, null])) as ColumnMapping;
+  const usedHeaders = new Set<string>();
+  for (const candidate of candidates) {
+    if (mapping[candidate.role] || usedHeaders.has(candidate.header)) continue;
+    mapping[candidate.role] = candidate.header;
+    usedHeaders.add(candidate.header);
+  }
+  return mapping;
+}
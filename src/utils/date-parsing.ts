@@ -0,0 +1,64 @@
+export type DateFormat = 'auto' | 'dmy' | 'mdy' | 'ymd';
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  auto: 'Detectar automáticamente',
+  dmy: 'DD/MM/AAAA (19/10/2026 14:03:11)',
+  mdy: 'MM/DD/AAAA (10/19/2026 2:03:11 PM)',
+  ymd: 'AAAA-MM-DD (2026-10-19 14:03:11)',
+};
+
+const DATE_PATTERN = /^(\d{1,4})[\/.-](\d{1,2})[\/.-](\d{1,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([ap]\.?\s?m\.?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Picks the day/month order of a column: a first part above 12 can only be a day and a
+ * second part above 12 can only be a day too. Ambiguous columns default to day first.
+ */
+export function detectDateFormat(values: string[]): Exclude<DateFormat, 'auto'> {
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const value of values) {
+    const match = value?.trim().match(DATE_PATTERN);
+    if (!match) continue;
+    if (match[1].length === 4) return 'ymd';
+    if (Number(match[1]) > 12) dayFirst = true;
+    if (Number(match[2]) > 12) monthFirst = true;
+  }
+  return monthFirst && !dayFirst ? 'mdy' : 'dmy';
+}
+
+/** Parses a Forms/Sheets timestamp in the given order; null when it is not a real date. */
+export function parseSheetDate(value: string, format: Exclude<DateFormat, 'auto'>): Date | null {
+  const text = value?.trim();
+  if (!text) return null;
+  const match = text.match(DATE_PATTERN);
+  if (!match) {
+    // Leave other spellings (e.g. "Oct 19, 2026") to the browser
+    const fallback = new Date(text);
+    return isNaN(fallback.getTime()) ? null : fallback;
+  }
+
+  const [, a, b, c, hours = '0', minutes = '0', seconds = '0', meridiem, zone] = match;
+  const isYearFirst = a.length === 4;
+  const year = Number(isYearFirst ? a : c);
+  const month = Number(isYearFirst ? b : format === 'mdy' ? a : b);
+  const day = Number(isYearFirst ? c : format === 'mdy' ? b : a);
+  let hour = Number(hours);
+  if (meridiem) {
+    const pm = meridiem.toLowerCase().startsWith('p');
+    if (hour === 12) hour = pm ? 12 : 0;
+    else if (pm) hour += 12;
+  }
+
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = zone
+    ? new Date(`${fullYear}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(Number(minutes))}:${pad(Number(seconds))}${zone.length === 5 ? `${zone.slice(0, 3)}:${zone.slice(3)}` : zone}`)
+    : new Date(fullYear, month - 1, day, hour, Number(minutes), Number(seconds));
+  // Reject rollovers such as 31/02 or 25:00
+  if (isNaN(date.getTime()) || month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || Number(minutes) > 59 || Number(seconds) > 59) return null;
+  if (!zone && (date.getMonth() !== month - 1 || date.getDate() !== day)) return null;
+  return date;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
@@ -0,0 +1,77 @@
+import { TicketData } from '../models/ticket-data.model';
+import { AnswerScales } from '../models/column-mapping.model';
+import { nameFromEmail, scaleScore } from './ticket-scales';
+import { NameLookup, ValueGetter } from './student-analytics';
+import { lowInformationFilter } from './response-preprocessing';
+
+export type GuideVersion = 'extension' | 'consolidation' | 'remedial';
+
+export interface GuideVersionDefinition {
+  id: GuideVersion;
+  title: string;
+  group: string; // Comprehension label of the students who receive it
+  comprehension: number; // Comprehension score of that group
+  prompt: string;
+}
+
+export const GUIDE_VERSIONS: GuideVersionDefinition[] = [
+  {
+    id: 'extension', title: 'Versión de Ampliación', group: 'Dominado', comprehension: 3,
+    prompt: 'Los estudiantes de este grupo dominan el tema: propón retos de mayor profundidad, conexiones con otros temas y oportunidades para explicar a sus compañeros.',
+  },
+  {
+    id: 'consolidation', title: 'Versión de Consolidación', group: 'Dudas/Idea General', comprehension: 2,
+    prompt: 'Los estudiantes de este grupo entienden la idea general pero tienen dudas: aclara esas dudas puntuales y propón práctica guiada que afiance lo aprendido.',
+  },
+  {
+    id: 'remedial', title: 'Versión de Refuerzo', group: 'Perdido/a', comprehension: 1,
+    prompt: 'Los estudiantes de este grupo se sienten perdidos: retoma los conceptos desde lo básico, con pasos cortos, ejemplos resueltos y verificaciones frecuentes.',
+  },
+];
+
+export interface GuideRecipient {
+  email: string;
+  name: string;
+  answered: boolean; // False when the student gave no comprehension answer and was placed by default
+}
+
+export interface GuideGroup {
+  version: GuideVersionDefinition;
+  recipients: GuideRecipient[];
+  confusions: { row: number, text: string }[];
+}
+
+/**
+ * Assigns each student to a guide version by their latest comprehension answer in `data`.
+ * Students without a recognized answer receive the consolidation version. Each group keeps
+ * the confusion answers of its own students, minus those made only of `lexicon` words.
+ */
+export function groupStudentsForGuides(data: TicketData[], value: ValueGetter, scales: AnswerScales, lexicon: string[], nameOf: NameLookup = () => undefined): GuideGroup[] {
+  const isLowInformation = lowInformationFilter(lexicon);
+  const latest = new Map<string, TicketData>();
+  const latestAnswered = new Map<string, TicketData>();
+  for (const row of [...data].sort((a, b) => a.Timestamp.getTime() - b.Timestamp.getTime())) {
+    const email = value(row, 'email')?.trim().toLowerCase();
+    if (!email) continue;
+    latest.set(email, row);
+    if (scaleScore(scales.comprehension, value(row, 'comprehension'))) latestAnswered.set(email, row);
+  }
+
+  const groups = GUIDE_VERSIONS.map(version => ({ version, recipients: [] as GuideRecipient[], emails: new Set<string>() }));
+  for (const email of latest.keys()) {
+    const answeredRow = latestAnswered.get(email);
+    const score = answeredRow ? scaleScore(scales.comprehension, value(answeredRow, 'comprehension')) : 2;
+    const group = groups.find(g => g.version.comprehension === score)!;
+    group.recipients.push({ email, name: nameOf(email) ?? nameFromEmail(email), answered: !!answeredRow });
+    group.emails.add(email);
+  }
+
+  return groups.map(({ version, recipients, emails }) => ({
+    version,
+    recipients: recipients.sort((a, b) => a.name.localeCompare(b.name)),
+    confusions: data
+      .filter(row => emails.has(value(row, 'email')?.trim().toLowerCase()))
+      .map(row => ({ row: row.rowNumber, text: value(row, 'confusion')?.trim() }))
+      .filter(answer => answer.text && !isLowInformation(answer.text)),
+  }));
+}
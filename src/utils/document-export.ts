@@ -0,0 +1,336 @@
+declare var marked: any;
+declare var docx: any;
+declare var jspdf: any;
+
+export interface ExportHeader {
+  title: string;
+  materia: string;
+  paralelo: string;
+  date: Date;
+  duration: string;
+  materiaOutcome: string;
+  unitOutcome: string;
+}
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// Format-neutral document model shared by the DOCX and PDF writers
+export type DocumentBlock =
+  | { type: 'heading', level: number, runs: TextRun[] }
+  | { type: 'paragraph', runs: TextRun[] }
+  | { type: 'listItem', listId: number, ordered: boolean, index: number, depth: number, runs: TextRun[], task?: 'checked' | 'unchecked' }
+  | { type: 'table', header: TextRun[][], rows: TextRun[][][] }
+  | { type: 'rule' };
+
+export function headerBlocks(header: ExportHeader): DocumentBlock[] {
+  const field = (label: string, value: string): DocumentBlock =>
+    ({ type: 'paragraph', runs: [{ text: `${label}: `, bold: true }, { text: value || '—' }] });
+  return [
+    { type: 'heading', level: 1, runs: [{ text: header.title }] },
+    field('Materia', header.materia || 'Todas'),
+    field('Paralelo', header.paralelo || 'Todos'),
+    field('Fecha', header.date.toLocaleDateString('es-ES')),
+    field('Duración', header.duration ? `${header.duration} minutos` : ''),
+    field('Resultado de aprendizaje de la materia', header.materiaOutcome),
+    field('Resultado de aprendizaje de la unidad', header.unitOutcome),
+    { type: 'rule' },
+  ];
+}
+
+/** Converts markdown into document blocks, flattening nested lists into indented items. */
+export function markdownToBlocks(markdown: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let nextListId = 0;
+
+  const visit = (tokens: any[], depth: number) => {
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading':
+          blocks.push({ type: 'heading', level: token.depth, runs: inlineRuns(token.tokens) });
+          break;
+        case 'paragraph':
+          blocks.push({ type: 'paragraph', runs: inlineRuns(token.tokens) });
+          break;
+        case 'blockquote':
+          visit(token.tokens, depth);
+          break;
+        case 'code':
+          blocks.push({ type: 'paragraph', runs: [{ text: token.text }] });
+          break;
+        case 'hr':
+          blocks.push({ type: 'rule' });
+          break;
+        case 'table':
+          blocks.push({
+            type: 'table',
+            header: token.header.map((cell: any) => inlineRuns(cell.tokens)),
+            rows: token.rows.map((row: any[]) => row.map(cell => inlineRuns(cell.tokens))),
+          });
+          break;
+        case 'list': {
+          const listId = nextListId++;
+          token.items.forEach((item: any, i: number) => {
+            const inline = item.tokens.filter((t: any) => t.type !== 'list');
+            const runs = inline.flatMap((t: any) => t.tokens ? inlineRuns(t.tokens) : [{ text: t.text ?? '' }]);
+            const task = item.task ? { task: item.checked ? 'checked' as const : 'unchecked' as const } : {};
+            blocks.push({ type: 'listItem', listId, ordered: token.ordered, index: (Number(token.start) || 1) + i, depth, runs, ...task });
+            visit(item.tokens.filter((t: any) => t.type === 'list'), depth + 1);
+          });
+          break;
+        }
+      }
+    }
+  };
+
+  visit(marked.lexer(markdown), 0);
+  return blocks;
+}
+
+function inlineRuns(tokens: any[] = [], style: Omit<TextRun, 'text'> = {}): TextRun[] {
+  return tokens.flatMap((token: any): TextRun[] => {
+    switch (token.type) {
+      case 'strong': return inlineRuns(token.tokens, { ...style, bold: true });
+      case 'em': return inlineRuns(token.tokens, { ...style, italic: true });
+      case 'br': return [{ ...style, text: '\n' }];
+      // Inline HTML is only kept for line breaks, e.g. between the levels of a rubric cell
+      case 'html': return /^<br\s*\/?>$/i.test(token.text.trim()) ? [{ ...style, text: '\n' }] : [{ ...style, text: decodeEntities(token.text) }];
+      case 'codespan':
+      case 'escape': return [{ ...style, text: decodeEntities(token.text) }];
+      default:
+        return token.tokens?.length ? inlineRuns(token.tokens, style) : [{ ...style, text: decodeEntities(token.text ?? '') }];
+    }
+  });
+}
+
+// The lexer keeps HTML entities escaped in text tokens
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39);/g, (_, entity) =>
+    ({ amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'" } as Record<string, string>)[entity]);
+}
+
+// --- DOCX ---
+
+export async function buildDocx(header: ExportHeader, markdown: string): Promise<Blob> {
+  const blocks = [...headerBlocks(header), ...markdownToBlocks(markdown)];
+  const toRuns = (runs: TextRun[], extra: object = {}) =>
+    runs.map(run => run.text === '\n'
+      ? new docx.TextRun({ break: 1, ...extra })
+      : new docx.TextRun({ text: run.text, bold: run.bold, italics: run.italic, ...extra }));
+  const headingLevels = [docx.HeadingLevel.HEADING_1, docx.HeadingLevel.HEADING_2, docx.HeadingLevel.HEADING_3, docx.HeadingLevel.HEADING_4];
+
+  const children = blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return new docx.Paragraph({ heading: headingLevels[Math.min(block.level, 4) - 1], keepNext: true, children: toRuns(block.runs) });
+      case 'paragraph':
+        return new docx.Paragraph({ spacing: { after: 120 }, children: toRuns(block.runs) });
+      case 'listItem':
+        return new docx.Paragraph({
+          ...(block.ordered
+            ? { numbering: { reference: 'ordered', level: Math.min(block.depth, 2), instance: block.listId } }
+            : { bullet: { level: Math.min(block.depth, 2) } }),
+          children: toRuns(block.task ? [{ text: block.task === 'checked' ? '☑ ' : '☐ ' }, ...block.runs] : block.runs),
+        });
+      case 'rule':
+        return new docx.Paragraph({ border: { bottom: { style: docx.BorderStyle.SINGLE, size: 6, color: '999999', space: 1 } }, children: [] });
+      case 'table': {
+        const row = (cells: TextRun[][], isHeader: boolean) => new docx.TableRow({
+          tableHeader: isHeader,
+          cantSplit: true,
+          children: cells.map(cell => new docx.TableCell({
+            children: [new docx.Paragraph({ children: toRuns(cell, isHeader ? { bold: true } : {}) })],
+          })),
+        });
+        return new docx.Table({
+          width: { size: 100, type: docx.WidthType.PERCENTAGE },
+          rows: [row(block.header, true), ...block.rows.map(cells => row(cells, false))],
+        });
+      }
+    }
+  });
+
+  const document = new docx.Document({
+    creator: 'Análisis de Tickets de Salida',
+    title: header.title,
+    numbering: {
+      config: [{
+        reference: 'ordered',
+        levels: [0, 1, 2].map(level => ({
+          level,
+          format: docx.LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: docx.AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{ children }],
+  });
+  return docx.Packer.toBlob(document);
+}
+
+// --- PDF ---
+
+const PDF_MARGIN = 56;
+const PDF_FONT_SIZE = 11;
+const PDF_HEADING_SIZES = [20, 16, 13, 12];
+const PDF_LINE_HEIGHT = 1.4;
+
+/** Writes the document as real, selectable text, breaking pages between lines and table rows. */
+export function buildPdf(header: ExportHeader, markdown: string): Blob {
+  const blocks = [...headerBlocks(header), ...markdownToBlocks(markdown)];
+  const pdf = new jspdf.jsPDF({ unit: 'pt', format: 'letter' });
+  pdf.setProperties({ title: header.title });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PDF_MARGIN * 2;
+  let y = PDF_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PDF_MARGIN) {
+      pdf.addPage();
+      y = PDF_MARGIN;
+    }
+  };
+  const setStyle = (run: TextRun, size: number) => {
+    pdf.setFont('helvetica', run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal');
+    pdf.setFontSize(size);
+  };
+
+  // Word-wraps styled runs into lines of positioned fragments
+  const layout = (runs: TextRun[], size: number, width: number) => {
+    const lines: { x: number, text: string, run: TextRun }[][] = [[]];
+    let x = 0;
+    for (const run of runs) {
+      setStyle(run, size);
+      for (const part of run.text.split(/(\s+)/)) {
+        if (!part) continue;
+        if (part.includes('\n')) {
+          lines.push([]);
+          x = 0;
+          continue;
+        }
+        const partWidth = pdf.getTextWidth(part);
+        if (/^\s+$/.test(part)) {
+          if (x > 0) x += partWidth;
+          continue;
+        }
+        if (x > 0 && x + partWidth > width) {
+          lines.push([]);
+          x = 0;
+        }
+        lines[lines.length - 1].push({ x, text: part, run });
+        x += partWidth;
+      }
+    }
+    return lines;
+  };
+
+  const writeLines = (lines: ReturnType<typeof layout>, size: number, left: number) => {
+    const lineHeight = size * PDF_LINE_HEIGHT;
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      for (const fragment of line) {
+        setStyle(fragment.run, size);
+        pdf.text(fragment.text, left + fragment.x, y + size);
+      }
+      y += lineHeight;
+    }
+  };
+
+  const writeTable = (block: Extract<DocumentBlock, { type: 'table' }>) => {
+    const columns = Math.max(block.header.length, 1);
+    const cellWidth = contentWidth / columns;
+    const padding = 4;
+    const lineHeight = PDF_FONT_SIZE * PDF_LINE_HEIGHT;
+    const writeRow = (cells: TextRun[][], bold: boolean) => {
+      const laidOut = cells.map(cell => layout(cell.map(run => ({ ...run, bold: run.bold || bold })), PDF_FONT_SIZE, cellWidth - padding * 2));
+      const height = Math.max(...laidOut.map(lines => lines.length), 1) * lineHeight + padding * 2;
+      ensureSpace(height);
+      laidOut.forEach((lines, i) => {
+        const left = PDF_MARGIN + i * cellWidth;
+        pdf.rect(left, y, cellWidth, height);
+        lines.forEach((line, lineIndex) => line.forEach(fragment => {
+          setStyle(fragment.run, PDF_FONT_SIZE);
+          pdf.text(fragment.text, left + padding + fragment.x, y + padding + lineIndex * lineHeight + PDF_FONT_SIZE);
+        }));
+      });
+      y += height;
+    };
+    writeRow(block.header, true);
+    block.rows.forEach(cells => writeRow(cells, false));
+    y += PDF_FONT_SIZE;
+  };
+
+  pdf.setTextColor(31, 41, 55);
+  pdf.setDrawColor(160, 160, 160);
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading': {
+        const size = PDF_HEADING_SIZES[Math.min(block.level, 4) - 1];
+        const lines = layout(block.runs.map(run => ({ ...run, bold: true })), size, contentWidth);
+        // Keep headings together with at least a couple of lines of what follows
+        ensureSpace(lines.length * size * PDF_LINE_HEIGHT + PDF_FONT_SIZE * PDF_LINE_HEIGHT * 2 + size * 0.5);
+        y += size * 0.5;
+        writeLines(lines, size, PDF_MARGIN);
+        break;
+      }
+      case 'paragraph':
+        writeLines(layout(block.runs, PDF_FONT_SIZE, contentWidth), PDF_FONT_SIZE, PDF_MARGIN);
+        y += PDF_FONT_SIZE * 0.4;
+        break;
+      case 'listItem': {
+        const indent = 18 * (block.depth + 1);
+        const marker = block.ordered ? `${block.index}.` : '•';
+        // The standard PDF fonts have no checkbox glyphs, so task boxes are drawn
+        const box = block.task ? PDF_FONT_SIZE * 0.8 : 0;
+        const textLeft = PDF_MARGIN + indent + (box && box + 4);
+        const lines = layout(block.runs, PDF_FONT_SIZE, pageWidth - PDF_MARGIN - textLeft);
+        ensureSpace(PDF_FONT_SIZE * PDF_LINE_HEIGHT);
+        setStyle({ text: marker }, PDF_FONT_SIZE);
+        pdf.text(marker, PDF_MARGIN + indent - 4, y + PDF_FONT_SIZE, { align: 'right' });
+        if (box) {
+          const top = y + PDF_FONT_SIZE - box;
+          pdf.rect(PDF_MARGIN + indent, top, box, box);
+          if (block.task === 'checked') {
+            pdf.line(PDF_MARGIN + indent + 2, top + box / 2, PDF_MARGIN + indent + box / 2.5, top + box - 2);
+            pdf.line(PDF_MARGIN + indent + box / 2.5, top + box - 2, PDF_MARGIN + indent + box - 1.5, top + 1.5);
+          }
+        }
+        writeLines(lines, PDF_FONT_SIZE, textLeft);
+        break;
+      }
+      case 'rule':
+        ensureSpace(PDF_FONT_SIZE);
+        pdf.line(PDF_MARGIN, y + PDF_FONT_SIZE / 2, pageWidth - PDF_MARGIN, y + PDF_FONT_SIZE / 2);
+        y += PDF_FONT_SIZE;
+        break;
+      case 'table':
+        writeTable(block);
+        break;
+    }
+  }
+
+  const pages = pdf.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page);
+    setStyle({ text: '' }, 9);
+    pdf.text(`${header.title} · ${page} / ${pages}`, pageWidth / 2, pageHeight - PDF_MARGIN / 2, { align: 'center' });
+  }
+  return pdf.output('blob');
+}
+
+// Some browsers start reading the blob well after click() returns, so the URL is kept alive a while
+const REVOKE_DELAY_MS = 10000;
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), REVOKE_DELAY_MS);
+}
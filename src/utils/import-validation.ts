@@ -0,0 +1,82 @@
+import { AnswerScales, COLUMN_ROLES, ColumnMapping, ColumnRole, ParsedSheet } from '../models/column-mapping.model';
+import { ImportIssue, ImportIssueKind } from '../models/import-report.model';
+import { SCALE_ROLES, parseScore, scaleScore, sessionKey } from './ticket-scales';
+import { DateFormat, parseSheetDate } from './date-parsing';
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  malformedRow: 'Fila mal formada',
+  invalidDate: 'Fecha no reconocida',
+  blankRequired: 'Dato obligatorio vacío',
+  scoreOutOfRange: 'Puntaje fuera de 1-10',
+  unknownOption: 'Opción desconocida',
+  duplicate: 'Envío duplicado',
+};
+
+/**
+ * The sheet's rows with the import report's corrections applied. Fixes stay separate from the
+ * fetched values so a refresh still recognizes the original submissions.
+ */
+export function fixedRows(sheet: ParsedSheet): Record<string, string>[] {
+  const fixes = sheet.cellFixes ?? {};
+  if (!Object.keys(fixes).length) return sheet.rows;
+  return sheet.rows.map((row, index) => {
+    const edited = Object.keys(fixes).filter(key => key.startsWith(`${index + 2}|`));
+    return edited.length ? { ...row, ...Object.fromEntries(edited.map(key => [key.slice(key.indexOf('|') + 1), fixes[key]])) } : row;
+  });
+}
+
+/**
+ * Lists every row-level problem of a mapped sheet. Rows already excluded are skipped, so fixing
+ * or excluding rows and validating again converges on an empty report.
+ */
+export function validateSheet(sheet: ParsedSheet, mapping: ColumnMapping, dateFormat: Exclude<DateFormat, 'auto'>, scales: AnswerScales): ImportIssue[] {
+  const excluded = new Set(sheet.excludedRows ?? []);
+  const issues: ImportIssue[] = [];
+  const seen = new Map<string, number>(); // email + class -> first row
+  const add = (row: number, kind: ImportIssueKind, role: ColumnRole | null, value: string, message: string, blocking: boolean) =>
+    issues.push({ row, kind, role, value, message, blocking });
+
+  for (const error of sheet.parseErrors ?? []) {
+    if (!excluded.has(error.row)) add(error.row, 'malformedRow', null, '', error.message, false);
+  }
+
+  fixedRows(sheet).forEach((row, index) => {
+    const rowNumber = index + 2;
+    if (excluded.has(rowNumber)) return;
+    const cell = (role: ColumnRole) => (mapping[role] ? String(row[mapping[role]!] ?? '').trim() : '');
+
+    for (const def of COLUMN_ROLES.filter(def => def.required)) {
+      if (!cell(def.role)) add(rowNumber, 'blankRequired', def.role, '', `Falta "${def.label}".`, true);
+    }
+
+    const timestamp = cell('timestamp');
+    const date = timestamp ? parseSheetDate(timestamp, dateFormat) : null;
+    if (timestamp && !date) add(rowNumber, 'invalidDate', 'timestamp', timestamp, `No se reconoce "${timestamp}" como fecha.`, true);
+
+    const score = cell('score');
+    if (score && parseScore(score) === null) add(rowNumber, 'scoreOutOfRange', 'score', score, `"${score}" no es un puntaje entre 1 y 10; no se contará en las estadísticas.`, false);
+
+    for (const role of SCALE_ROLES) {
+      const answer = cell(role);
+      if (answer && scaleScore(scales[role], answer) === null) {
+        const label = COLUMN_ROLES.find(def => def.role === role)!.label;
+        add(rowNumber, 'unknownOption', role, answer, `"${answer}" no tiene puntaje en ${label}; no se contará en las estadísticas. Puedes asignarlo en Columnas.`, false);
+      }
+    }
+
+    const email = cell('email').toLowerCase();
+    if (email && date) {
+      const key = `${email}|${cell('subject')}|${cell('section')}|${sessionKey(date)}`;
+      const first = seen.get(key);
+      if (first) add(rowNumber, 'duplicate', 'email', email, `El mismo estudiante ya envió un ticket para esta clase en la fila ${first}.`, false);
+      else seen.set(key, rowNumber);
+    }
+  });
+
+  return issues.sort((a, b) => a.row - b.row);
+}
+
+/** Rows excluded before the teacher reviews the report: unusable rows and repeated submissions. */
+export function defaultExclusions(issues: ImportIssue[]): number[] {
+  return [...new Set(issues.filter(issue => issue.blocking || issue.kind === 'duplicate').map(issue => issue.row))];
+}
@@ -0,0 +1,63 @@
+import { LessonPlanTemplate, TemplateField, TemplateSection } from '../models/lesson-template.model';
+
+const PLANNER_PROMPT = "Eres un diseñador instruccional experto. Crea un plan de clase híbrido y estructurado. El objetivo es: 1) Reforzar los 'Puntos Confusos' y responder las 'Preguntas Pendientes' de la clase anterior, y 2) Introducir el nuevo tema. El plan debe ser profesional y práctico.";
+
+export const DEFAULT_LESSON_TEMPLATES: LessonPlanTemplate[] = [
+  {
+    // Reproduces the four fixed steps the plan used before templates existed
+    id: 'default-four-steps',
+    name: 'Plan de Refuerzo en 4 Pasos',
+    description: 'Inicio, desarrollo, aplicación y cierre con tiempos que suman la duración de la clase.',
+    systemPrompt: PLANNER_PROMPT,
+    fields: [],
+    sections: [
+      { id: 'start', title: '1. Inicio y Revisión', format: 'text', columns: [], prompt: 'Indica el tiempo asignado y cómo se repasan los puntos confusos y las preguntas pendientes.' },
+      { id: 'development', title: '2. Desarrollo del Nuevo Tema', format: 'text', columns: [], prompt: 'Indica el tiempo asignado y cómo se introduce el nuevo tema conectándolo con lo reforzado.' },
+      { id: 'application', title: '3. Actividad de Aplicación y Preguntas', format: 'text', columns: [], prompt: 'Indica el tiempo asignado y describe una actividad práctica acorde a la cantidad de estudiantes.' },
+      { id: 'closing', title: '4. Cierre y Próximos Pasos', format: 'text', columns: [], prompt: 'Indica el tiempo asignado, cómo se verifica el aprendizaje y qué deben preparar los estudiantes.' },
+    ],
+  },
+  {
+    id: 'default-institutional',
+    name: 'Formato Institucional',
+    description: 'Objetivos, metodología, recursos, criterios de evaluación y cronograma.',
+    systemPrompt: PLANNER_PROMPT,
+    fields: [
+      { id: 'modality', label: 'Modalidad (presencial, híbrida, en línea)', required: false },
+    ],
+    sections: [
+      { id: 'objectives', title: 'Objetivos', format: 'text', columns: [], prompt: 'Redacta entre 2 y 4 objetivos de aprendizaje observables alineados con los resultados de aprendizaje.' },
+      { id: 'methodology', title: 'Metodología', format: 'text', columns: [], prompt: 'Describe las estrategias didácticas, incluyendo cómo se atiende la retroalimentación de los estudiantes.' },
+      { id: 'resources', title: 'Recursos', format: 'text', columns: [], prompt: 'Lista los materiales, herramientas y espacios necesarios.' },
+      { id: 'evaluation', title: 'Criterios de Evaluación', format: 'text', columns: [], prompt: 'Define criterios e indicadores de logro verificables durante la clase.' },
+      { id: 'timing', title: 'Cronograma', format: 'table', columns: ['Tiempo (min)', 'Actividad', 'Responsable', 'Recursos'], prompt: 'Distribuye la clase en momentos cuya duración sume exactamente la duración total.' },
+    ],
+  },
+];
+
+export function createTemplate(): LessonPlanTemplate {
+  return {
+    id: crypto.randomUUID(),
+    name: 'Nueva plantilla',
+    description: '',
+    systemPrompt: PLANNER_PROMPT,
+    fields: [],
+    sections: [createTemplateSection()],
+  };
+}
+
+export function createTemplateSection(): TemplateSection {
+  return { id: crypto.randomUUID(), title: 'Nueva sección', format: 'text', columns: [], prompt: '' };
+}
+
+export function createTemplateField(): TemplateField {
+  return { id: crypto.randomUUID(), label: 'Nuevo campo', required: false };
+}
+
+/** Instruction for generating a single section of a plan in the template's structure. */
+export function sectionInstruction(section: TemplateSection): string {
+  const format = section.format === 'table' && section.columns.length
+    ? `Responde únicamente con una tabla Markdown con estas columnas, en este orden: ${section.columns.join(' | ')}.`
+    : 'Responde en Markdown con párrafos o listas breves.';
+  return `Redacta ÚNICAMENTE la sección "${section.title}" del plan. ${section.prompt} ${format} No repitas el título de la sección ni escribas otras secciones.`;
+}
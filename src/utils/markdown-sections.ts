@@ -0,0 +1,33 @@
+export interface MarkdownSection {
+  title: string; // Empty for any text before the first heading
+  level: number;
+  body: string;
+}
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.+?)\s*#*\s*$/;
+
+/** Splits markdown at its top headings (levels 1-3) so each part can be edited on its own. */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { title: '', level: 0, body: '' };
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(HEADING_PATTERN);
+    if (match) {
+      if (current.title || current.body.trim()) sections.push(current);
+      current = { title: match[2], level: match[1].length, body: '' };
+    } else {
+      current.body += (current.body ? '\n' : '') + line;
+    }
+  }
+  if (current.title || current.body.trim()) sections.push(current);
+  return sections.map(section => ({ ...section, body: section.body.trim() }));
+}
+
+export function joinMarkdownSections(sections: MarkdownSection[]): string {
+  return sections
+    .map(section => section.title ? `${'#'.repeat(section.level || 3)} ${section.title}\n\n${section.body}` : section.body)
+    .join('\n\n')
+    .trim();
+}
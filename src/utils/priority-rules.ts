@@ -0,0 +1,126 @@
+import { TicketData } from '../models/ticket-data.model';
+import { PriorityRule, RuleCondition } from '../models/priority-rule.model';
+import { TicketFlag } from '../models/student.model';
+import { ValueGetter } from './student-analytics';
+import { AnswerScales } from '../models/column-mapping.model';
+import { normalizeHeader } from './column-matching';
+import { SCALE_ROLES, scaleScore } from './ticket-scales';
+
+// Lowest comprehension score, whatever the wording of the sheet's options
+const LOST_COMPREHENSION: RuleCondition = { role: 'comprehension', operator: 'lessOrEqual', value: '1' };
+// How the default rules matched it before answers were scored per sheet
+const LEGACY_LOST_COMPREHENSION = "No entendí casi nada. - Me siento bastante perdido/a.";
+
+// Reproduce the criteria the attention list used before rules were configurable
+export const DEFAULT_PRIORITY_RULES: PriorityRule[] = [
+  {
+    id: 'default-lost-and-unsatisfied',
+    label: 'Comprensión Baja y Satisfacción Baja ({score}/10)',
+    severity: 3,
+    combinator: 'AND',
+    conditions: [
+      { ...LOST_COMPREHENSION },
+      { role: 'score', operator: 'lessOrEqual', value: '7' },
+    ],
+    enabled: true,
+  },
+  {
+    id: 'default-lost',
+    label: 'Comprensión Baja: Perdido/a',
+    severity: 2,
+    combinator: 'AND',
+    conditions: [{ ...LOST_COMPREHENSION }],
+    enabled: true,
+  },
+  {
+    id: 'default-unsatisfied',
+    label: 'Satisfacción Baja ({score}/10)',
+    severity: 1,
+    combinator: 'AND',
+    conditions: [{ role: 'score', operator: 'lessOrEqual', value: '7' }],
+    enabled: true,
+  },
+];
+
+export function severityBadgeColor(severity: number): string {
+  if (severity >= 3) return 'bg-red-700';
+  if (severity >= 2) return 'bg-red-500';
+  return 'bg-yellow-600';
+}
+
+/** Replaces saved conditions on the original form's "lost" answer with the score-based one. */
+export function upgradeLegacyConditions(rules: PriorityRule[]): PriorityRule[] {
+  return rules.map(rule => ({
+    ...rule,
+    conditions: rule.conditions.map(condition =>
+      condition.role === 'comprehension' && condition.operator === 'equals' && normalizeHeader(condition.value) === normalizeHeader(LEGACY_LOST_COMPREHENSION)
+        ? { ...LOST_COMPREHENSION }
+        : condition),
+  }));
+}
+
+/**
+ * Checks one condition against a row. Comparisons on a scored role (comprehension, engagement)
+ * use the answer's score under `scales`, so they work with any wording of the options.
+ */
+export function evaluateCondition(condition: RuleCondition, row: TicketData, value: ValueGetter, scales: AnswerScales): boolean {
+  const raw = value(row, condition.role);
+  const text = raw instanceof Date ? raw.toISOString() : String(raw ?? '').trim();
+
+  switch (condition.operator) {
+    case 'equals': return normalizeHeader(text) === normalizeHeader(condition.value);
+    case 'notEquals': return normalizeHeader(text) !== normalizeHeader(condition.value);
+    case 'isEmpty': return !text;
+    case 'containsAny': {
+      const answer = ` ${normalizeHeader(text)} `;
+      return condition.value.split(',')
+        .map(keyword => normalizeHeader(keyword))
+        .some(keyword => keyword && answer.includes(` ${keyword}`));
+    }
+  }
+
+  const scaleRole = SCALE_ROLES.find(role => role === condition.role);
+  const number = scaleRole ? scaleScore(scales[scaleRole], text) ?? NaN : parseFloat(text);
+  const threshold = parseFloat(condition.value);
+  if (isNaN(number) || isNaN(threshold)) return false;
+  switch (condition.operator) {
+    case 'lessThan': return number < threshold;
+    case 'lessOrEqual': return number <= threshold;
+    case 'greaterThan': return number > threshold;
+    case 'greaterOrEqual': return number >= threshold;
+  }
+}
+
+export function evaluateRule(rule: PriorityRule, row: TicketData, value: ValueGetter, scales: AnswerScales): boolean {
+  if (!rule.enabled || !rule.conditions.length) return false;
+  return rule.combinator === 'AND'
+    ? rule.conditions.every(c => evaluateCondition(c, row, value, scales))
+    : rule.conditions.some(c => evaluateCondition(c, row, value, scales));
+}
+
+/**
+ * Flags a ticket with every matching rule. The reason comes from the most severe match
+ * (the first one on ties), with `{role}` placeholders replaced by the row's answers.
+ */
+export function flagTicketWithRules(rules: PriorityRule[], row: TicketData, value: ValueGetter, scales: AnswerScales): TicketFlag | null {
+  const matched = rules.filter(rule => evaluateRule(rule, row, value, scales));
+  if (!matched.length) return null;
+
+  const top = matched.reduce((best, rule) => rule.severity > best.severity ? rule : best);
+  return {
+    reason: top.label.replace(/\{(\w+)\}/g, (placeholder, role) => String(value(row, role) ?? placeholder).trim()),
+    severity: top.severity,
+    matchedRules: matched.map(rule => rule.label.replace(/\s*\(\{\w+\}[^)]*\)/g, '')),
+  };
+}
+
+export function createRule(): PriorityRule {
+  return {
+    id: crypto.randomUUID(),
+    label: 'Nueva regla',
+    severity: 2,
+    combinator: 'AND',
+    conditions: [{ role: 'score', operator: 'lessThan', value: '5' }],
+    enabled: true,
+  };
+}
@@ -0,0 +1,125 @@
+type RedactionKind = 'CORREO' | 'TELEFONO' | 'NOMBRE';
+
+const EMAIL_PATTERN = /[\p{L}\d._%+-]+@[\p{L}\d.-]+\.[\p{L}]{2,}/gu;
+// Sequences of digits with common separators; only those with 9+ digits count as phone numbers.
+// Digits next to a colon belong to a time ("14:03"), and a date with its hour is not a phone.
+const PHONE_PATTERN = /(?<![\p{L}\d]|\d:)\+?\d[\d\s().-]{6,}\d(?![\p{L}\d]|:\d)/gu;
+const DATE_PATTERN = /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})(?:\s+\d{1,4})?$/u;
+const MIN_PHONE_DIGITS = 9;
+// Capitalized words introduced by a cue such as "me llamo" or "profe"
+const NAME_CUE_PATTERN = /(?<!\p{L})((?:[Mm]e llamo|[Mm]i nombre es|[Pp]rofe(?:sor|sora)?|[Cc]ompañer[oa]s?|[Aa]mig[oa]s?|[Ii]ng\.|[Ll]ic\.|[Dd]ra?\.)\s+)(\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+)?)/gu;
+const TOKEN_PATTERN = /\[(CORREO|TELEFONO|NOMBRE)_(\d+)\]/g;
+
+// Email parts that are not personal names
+const NON_NAME_PARTS = new Set(['admin', 'alumno', 'alumna', 'clase', 'contacto', 'docente', 'est', 'estudiante', 'info', 'prof', 'profesor', 'student', 'test', 'usuario']);
+
+const ACCENT_VARIANTS: Record<string, string> = { a: 'aá', e: 'eé', i: 'ií', o: 'oó', u: 'uúü', n: 'nñ' };
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function accentInsensitive(word: string): string {
+  return [...stripAccents(word.toLowerCase())]
+    .map(char => ACCENT_VARIANTS[char] ? `[${ACCENT_VARIANTS[char]}]` : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+}
+
+/** Name candidates derived from student emails: the full name and each part of it. */
+export function namesFromEmails(emails: string[]): string[] {
+  const names = new Set<string>();
+  for (const email of emails) {
+    const parts = (email.split('@')[0] ?? '')
+      .split(/[._\-\d]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length >= 3 && !NON_NAME_PARTS.has(part));
+    if (parts.length > 1) names.add(parts.join(' '));
+    parts.forEach(part => names.add(part));
+  }
+  return [...names];
+}
+
+/** Name candidates from real names (e.g. a class roster): the full name and each part of it. */
+export function namesFromFullNames(fullNames: string[]): string[] {
+  const names = new Set<string>();
+  for (const fullName of fullNames) {
+    const parts = fullName.toLowerCase().split(/[\s,]+/).filter(part => part.length >= 3 && !NON_NAME_PARTS.has(part));
+    if (parts.length > 1) names.add(parts.join(' '));
+    parts.forEach(part => names.add(part));
+  }
+  return [...names];
+}
+
+/**
+ * Replaces personal data with numbered tokens such as [NOMBRE_1] and restores them in the
+ * model's output. A value always maps to the same token within one redactor.
+ */
+export class Redactor {
+  private readonly originals = new Map<string, string>(); // token -> original text
+  private readonly tokensByValue = new Map<string, string>(); // normalized original -> token
+  private readonly counters: Record<RedactionKind, number> = { CORREO: 0, TELEFONO: 0, NOMBRE: 0 };
+  private readonly namePattern: RegExp | null;
+
+  constructor(knownNames: string[]) {
+    const alternatives = [...knownNames]
+      .sort((a, b) => b.length - a.length)
+      .map(name => name.split(' ').map(accentInsensitive).join('\\s+'));
+    this.namePattern = alternatives.length
+      ? new RegExp(`(?<!\\p{L})(?:${alternatives.join('|')})(?!\\p{L})`, 'giu')
+      : null;
+  }
+
+  get count(): number {
+    return this.originals.size;
+  }
+
+  redact(text: string): string {
+    let result = text.replace(EMAIL_PATTERN, match => this.token('CORREO', match));
+    result = result.replace(PHONE_PATTERN, match =>
+      match.replace(/\D/g, '').length >= MIN_PHONE_DIGITS && !DATE_PATTERN.test(match) ? this.token('TELEFONO', match) : match);
+    result = result.replace(NAME_CUE_PATTERN, (_, cue, name) => cue + this.token('NOMBRE', name));
+    if (this.namePattern) {
+      // A single known word only counts as a name when capitalized, e.g. "Rosa" but not "rosa"
+      result = result.replace(this.namePattern, match =>
+        /\s/.test(match) || match[0] !== match[0].toLowerCase() ? this.token('NOMBRE', match) : match);
+    }
+    return result;
+  }
+
+  restore(text: string): string {
+    return text.replace(TOKEN_PATTERN, token => this.originals.get(token) ?? token);
+  }
+
+  private token(kind: RedactionKind, value: string): string {
+    const key = `${kind}:${stripAccents(value.toLowerCase().replace(/\s+/g, ' '))}`;
+    let token = this.tokensByValue.get(key);
+    if (!token) {
+      token = `[${kind}_${++this.counters[kind]}]`;
+      this.tokensByValue.set(key, token);
+      this.originals.set(token, value);
+    }
+    return token;
+  }
+}
+
+const AGGREGATE_STOPWORDS = new Set(['como', 'con', 'cual', 'cuando', 'del', 'entre', 'era', 'esta', 'este', 'esto', 'fue', 'hay', 'las', 'los', 'mas', 'mucho', 'muy', 'nos', 'para', 'pero', 'por', 'porque', 'que', 'ser', 'sobre', 'son', 'tambien', 'tema', 'todo', 'una', 'uno', 'unos']);
+
+/**
+ * Aggregate view of free-text answers for when no individual answer may leave the browser:
+ * how many answers mention each word, keeping only words shared by several students.
+ */
+export function aggregateAnswers(answers: string[], excludedWords: string[] = [], minCount = 2, limit = 25): string[] {
+  const excluded = new Set(excludedWords.map(word => stripAccents(word.toLowerCase())));
+  const counts = new Map<string, number>();
+  for (const answer of answers) {
+    const words = new Set(stripAccents(answer.toLowerCase()).match(/\p{L}{3,}/gu) ?? []);
+    words.forEach(word => {
+      if (!AGGREGATE_STOPWORDS.has(word) && !excluded.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    });
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word, count]) => `- "${word}": ${count} de ${answers.length} respuestas`);
+}
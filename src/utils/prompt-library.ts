@@ -0,0 +1,130 @@
+import { FewShotExample, PromptKind, PromptLibrary, PromptVariable, PromptVersion } from '../models/prompt-library.model';
+
+export const PROMPT_KINDS: PromptKind[] = ['learnings', 'confused', 'questions', 'suggestions', 'lessonPlan', 'studentGuide'];
+
+const SUMMARY_VARIABLES: PromptVariable[] = [
+  { name: 'materia', description: 'Materia del filtro aplicado' },
+  { name: 'responseCount', description: 'Cantidad de respuestas enviadas' },
+  { name: 'responses', description: 'Respuestas de los estudiantes, delimitadas como datos' },
+];
+
+export const PROMPT_VARIABLES: Record<PromptKind, PromptVariable[]> = {
+  learnings: SUMMARY_VARIABLES,
+  confused: SUMMARY_VARIABLES,
+  questions: SUMMARY_VARIABLES,
+  suggestions: SUMMARY_VARIABLES,
+  lessonPlan: [
+    { name: 'templateInstructions', description: 'Instrucción general de la plantilla de plan elegida' },
+    { name: 'materia', description: 'Materia del filtro aplicado' },
+    { name: 'topic', description: 'Nuevo tema' },
+    { name: 'duration', description: 'Duración de la clase en minutos' },
+    { name: 'students', description: 'Número de estudiantes' },
+    { name: 'materiaOutcome', description: 'Resultado de aprendizaje de la materia' },
+    { name: 'unitOutcome', description: 'Resultado de aprendizaje de la unidad' },
+    { name: 'classProduct', description: 'Producto de la clase' },
+    { name: 'extraFields', description: 'Campos adicionales de la plantilla, uno por línea' },
+    { name: 'confusedSummary', description: 'Resumen de puntos confusos' },
+    { name: 'questionsSummary', description: 'Resumen de preguntas pendientes' },
+    { name: 'planStructure', description: 'Secciones de la plantilla de plan' },
+  ],
+  studentGuide: [
+    { name: 'materia', description: 'Materia del filtro aplicado' },
+    { name: 'group', description: 'Grupo de estudiantes de esta versión de la guía' },
+    { name: 'groupSize', description: 'Cantidad de estudiantes del grupo' },
+    { name: 'groupFocus', description: 'Enfoque de la guía para el grupo' },
+    { name: 'guideTitle', description: 'Nombre de la versión de la guía' },
+    { name: 'confusedSummary', description: 'Puntos confusos del grupo' },
+    { name: 'lessonPlan', description: 'Plan de clase generado' },
+  ],
+};
+
+const SUMMARY_USER_PROMPT = 'Contexto: Materia: {materia}. {responses}';
+
+const DEFAULT_PROMPTS: Record<PromptKind, Pick<PromptVersion, 'systemPrompt' | 'userPrompt'>> = {
+  learnings: {
+    systemPrompt: "Eres un asistente de análisis educativo. Tu tarea es leer las respuestas de los estudiantes sobre su aprendizaje más importante de la clase y generar un resumen conciso y profesional, identificando los 3 a 5 temas o ideas principales mencionados.",
+    userPrompt: SUMMARY_USER_PROMPT,
+  },
+  confused: {
+    systemPrompt: "Eres un asistente de análisis educativo. Tu tarea es leer las respuestas de los estudiantes sobre los puntos más confusos de la clase y generar un resumen conciso, identificando los 3 a 5 temas principales que causaron confusión. Prioriza las áreas de refuerzo más urgentes.",
+    userPrompt: SUMMARY_USER_PROMPT,
+  },
+  questions: {
+    systemPrompt: "Eres un asistente educativo. Tu tarea es leer las preguntas de los estudiantes para la siguiente clase y generar un resumen conciso, agrupando las 3 a 5 preguntas o temas más solicitados para abordar al inicio de la próxima sesión.",
+    userPrompt: SUMMARY_USER_PROMPT,
+  },
+  suggestions: {
+    systemPrompt: "Eres un analista de feedback. Tu tarea es leer las sugerencias de los estudiantes sobre cómo el docente puede ayudarlos a comprender mejor el tema y generar un resumen conciso de las 3 a 5 peticiones principales (ej: 'más ejemplos prácticos', 'más tiempo de laboratorio').",
+    userPrompt: SUMMARY_USER_PROMPT,
+  },
+  lessonPlan: {
+    systemPrompt: '{templateInstructions} La clase dura {duration} minutos y el nuevo tema es: "{topic}". Cuando indiques tiempos, deben sumar {duration} minutos en total.',
+    userPrompt: `**Materia:** {materia}. **Estudiantes:** {students}.
+**Nuevo Tema:** {topic}
+**Resultados de Aprendizaje:**
+- Materia: {materiaOutcome}
+- Unidad: {unitOutcome}
+- Producto de la Clase (Opcional): {classProduct}{extraFields}
+**Feedback de Estudiantes a Abordar:**
+1. Puntos Confusos: {confusedSummary}
+2. Preguntas Pendientes: {questionsSummary}
+**Estructura del plan:** {planStructure}`,
+  },
+  studentGuide: {
+    systemPrompt: "Eres un coach de estudio. Tu tarea es tomar un Plan de Clase y transformarlo en una Guía de Estudio y Refuerzo concisa y motivadora para un grupo de estudiantes. El tono debe ser alentador, directo y orientado a la acción. {groupFocus} Estructura el resultado usando Markdown con 3 secciones principales: ### 1. Nuestro Objetivo de Refuerzo, ### 2. Pasos Clave de Refuerzo, ### 3. Checklist de Preparación. No añadas un título general.",
+    userPrompt: `**Materia:** {materia}. **Grupo:** {group} ({groupSize} estudiantes).
+**Puntos confusos de este grupo:**
+{confusedSummary}
+
+**Plan de Clase a transformar:**
+
+{lessonPlan}
+
+**Instrucción Final:** Genera la {guideTitle} de la Guía de Estudio, dirigida a este grupo y basada en sus propios puntos confusos.`,
+  },
+};
+
+export const DEFAULT_PROMPT_VERSION_ID = 'default';
+
+/** The built-in prompt of a kind, i.e. the one the app used before prompts were editable. */
+export function defaultPromptVersion(kind: PromptKind): PromptVersion {
+  return { id: DEFAULT_PROMPT_VERSION_ID, name: 'Predeterminada', createdAt: 0, examples: [], ...DEFAULT_PROMPTS[kind] };
+}
+
+export function defaultPromptLibrary(): PromptLibrary {
+  return Object.fromEntries(PROMPT_KINDS.map(kind => [kind, {
+    activeVersionId: DEFAULT_PROMPT_VERSION_ID,
+    versions: [defaultPromptVersion(kind)],
+  }])) as PromptLibrary;
+}
+
+export function createPromptVersion(from: PromptVersion, name: string): PromptVersion {
+  return { ...structuredClone(from), id: crypto.randomUUID(), name, createdAt: Date.now() };
+}
+
+/**
+ * Replaces each {name} with its value in a single pass, so braces inside the values (e.g. in
+ * student answers) are never expanded. Unknown variables are left as written.
+ */
+export function fillTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => Object.hasOwn(variables, name) ? variables[name] : match);
+}
+
+/**
+ * System and user prompts of a version. Fixed `instructions` (output format, data safety) follow
+ * the teacher's system prompt, and the few-shot examples close it.
+ */
+export function renderPrompt(version: PromptVersion, variables: Record<string, string>, instructions = ''): { systemPrompt: string, userQuery: string } {
+  const examples = fewShotBlock(version.examples.filter(example => example.input.trim() || example.output.trim()));
+  const systemPrompt = [fillTemplate(version.systemPrompt, variables).trim(), instructions].filter(Boolean).join(' ');
+  return {
+    systemPrompt: examples ? `${systemPrompt}\n\n${examples}` : systemPrompt,
+    userQuery: fillTemplate(version.userPrompt, variables),
+  };
+}
+
+function fewShotBlock(examples: FewShotExample[]): string {
+  if (!examples.length) return '';
+  const blocks = examples.map((example, i) => `Ejemplo ${i + 1}\nEntrada:\n${example.input.trim()}\nRespuesta esperada:\n${example.output.trim()}`);
+  return `Sigue el estilo de estos ejemplos:\n\n${blocks.join('\n\n')}`;
+}
@@ -0,0 +1,118 @@
+import { PreprocessingSettings, PreprocessingStats, ResponseGroup } from '../models/preprocessing.model';
+
+export const DEFAULT_PREPROCESSING_SETTINGS: PreprocessingSettings = {
+  lexicon: [
+    'no', 'si', 'nada', 'ninguna', 'ninguno', 'ningun', 'ningunas', 'ningunos', 'nop', 'na', 'n/a', 'ok', 'okay',
+    'duda', 'dudas', 'pregunta', 'preguntas', 'sugerencia', 'sugerencias', 'profe', 'profesor', 'profesora', 'docente',
+    'gracias', 'todo', 'bien', 'claro', 'entendido', 'igual', 'tengo', 'hay', 'por', 'el', 'la', 'de', 'en', 'momento',
+    'ahora', 'se', 'ya', 'y', 'muy', 'mas', 'que', 'me', 'quedo', 'estuvo', 'fue', 'excelente', 'xd', 'jaja', 'jajaja',
+  ],
+  similarityThreshold: 0.8,
+  contextBudgetTokens: 6000,
+  preGroup: false,
+};
+
+// Long answers that differ only by a negation still overlap a lot; these keep them apart
+const NEGATIONS = new Set(['no', 'nunca', 'ni', 'tampoco', 'nada', 'sin']);
+
+// Rough chars-per-token ratio for Spanish text, good enough to stay under the budget
+const CHARS_PER_TOKEN = 4;
+
+export const DUPLICATE_COUNT_INSTRUCTION = 'Una respuesta seguida de "(×N)" representa N respuestas iguales o casi iguales de distintos estudiantes: cuéntalas todas en "count".';
+
+/** Lowercases and strips accents, punctuation and emoji so equivalent answers compare equal. */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9ñ/]+/g, ' ')
+    .trim();
+}
+
+/** Builds a check for answers with no content: empty, or made only of lexicon words ("nada.", "ninguna duda"). */
+export function lowInformationFilter(lexicon: string[]): (text: string) => boolean {
+  const words = new Set(lexicon.map(normalizeAnswer).filter(Boolean));
+  return text => !normalizeAnswer(text).split(' ').some(word => word.length > 1 && !words.has(word));
+}
+
+/**
+ * Drops answers made only of lexicon words and folds answers whose word sets overlap above
+ * the threshold into the first one seen, keeping every row so counts stay accurate. The
+ * lexicon only decides what has no content: duplicates compare every word, so "no entendí"
+ * and "entendí bien" stay apart.
+ */
+export function preprocessResponses(answers: { row: number, text: string }[], settings: PreprocessingSettings): { groups: ResponseGroup[], stats: PreprocessingStats } {
+  const isLowInformation = lowInformationFilter(settings.lexicon);
+  const groups: (ResponseGroup & { words: Set<string> })[] = [];
+  let total = 0;
+  let lowInformation = 0;
+
+  for (const answer of answers) {
+    const text = answer.text.trim();
+    if (!text) continue;
+    total++;
+    if (isLowInformation(text)) {
+      lowInformation++;
+      continue;
+    }
+    const wordSet = new Set(normalizeAnswer(text).split(' ').filter(Boolean));
+    const match = groups.find(group => isNegated(group.words) === isNegated(wordSet) && similarity(group.words, wordSet) >= settings.similarityThreshold);
+    if (match) match.rows.push(answer.row);
+    else groups.push({ text, rows: [answer.row], words: wordSet });
+  }
+
+  return {
+    groups: groups.map(({ text, rows }) => ({ text, rows })),
+    stats: { total, used: total - lowInformation, unique: groups.length, lowInformation, chunks: groups.length ? 1 : 0 },
+  };
+}
+
+/** One prompt line per group: the first row, the answer and how many students gave it. */
+export function responseLine(group: ResponseGroup): string {
+  return `[${group.rows[0]}] ${group.text}${group.rows.length > 1 ? ` (×${group.rows.length})` : ''}`;
+}
+
+// Token count of a text by the same ratio, for when the provider reports none
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Splits prompt lines into consecutive blocks that each fit the token budget. */
+export function chunkLines(lines: string[], budgetTokens: number): string[][] {
+  const budget = Math.max(1, budgetTokens) * CHARS_PER_TOKEN;
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const line of lines) {
+    if (current.length && size + line.length + 1 > budget) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += line.length + 1;
+  }
+  if (current.length) chunks.push(current);
+  return chunks;
+}
+
+export function describePreprocessing(stats: PreprocessingStats): string {
+  const parts = [`${stats.used} de ${stats.total} respuestas usadas`];
+  const duplicates = stats.used - stats.unique;
+  if (duplicates) parts.push(`${duplicates} ${duplicates === 1 ? 'duplicada agrupada' : 'duplicadas agrupadas'}`);
+  if (stats.lowInformation) parts.push(`${stats.lowInformation} ${stats.lowInformation === 1 ? 'descartada' : 'descartadas'} sin contenido`);
+  if (stats.chunks > 1) parts.push(`resumidas en ${stats.chunks} bloques`);
+  return parts.join(' · ');
+}
+
+// Jaccard index of two word sets
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function isNegated(words: Set<string>): boolean {
+  return [...words].some(word => NEGATIONS.has(word));
+}
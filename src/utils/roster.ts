@@ -0,0 +1,92 @@
+import { TicketData } from '../models/ticket-data.model';
+import { NonRespondent, RosterStudent, SessionAttendance } from '../models/roster.model';
+import { normalizeHeader } from './column-matching';
+import { sessionKey } from './ticket-scales';
+
+const ROSTER_COLUMNS: Record<keyof RosterStudent, string[]> = {
+  email: ['email', 'correo', 'email address', 'correo electronico', 'direccion de correo electronico', 'mail'],
+  name: ['nombre', 'nombres', 'name', 'estudiante', 'apellidos y nombres', 'nombre completo', 'full name'],
+  materia: ['materia', 'asignatura', 'subject', 'curso'],
+  paralelo: ['paralelo', 'seccion', 'section', 'grupo'],
+};
+
+/** Reads roster rows, matching the columns by name. Rows without an email are skipped. */
+export function parseRoster(headers: string[], rows: Record<string, string>[]): { students: RosterStudent[], skipped: number } {
+  const column = (field: keyof RosterStudent) => headers.find(header => ROSTER_COLUMNS[field].includes(normalizeHeader(header)));
+  const columns = { email: column('email'), name: column('name'), materia: column('materia'), paralelo: column('paralelo') };
+  const missing = (['email', 'materia', 'paralelo'] as const).filter(field => !columns[field]);
+  if (missing.length) {
+    throw new Error(`La lista de clase debe tener las columnas email, nombre, Materia y Paralelo. Faltan: ${missing.join(', ')}.`);
+  }
+
+  const students = new Map<string, RosterStudent>();
+  let skipped = 0;
+  for (const row of rows) {
+    const email = row[columns.email!]?.trim().toLowerCase();
+    const materia = row[columns.materia!]?.trim();
+    const paralelo = row[columns.paralelo!]?.trim();
+    if (!email || !materia || !paralelo) {
+      skipped++;
+      continue;
+    }
+    const name = (columns.name && row[columns.name]?.trim()) || email.split('@')[0];
+    students.set(`${email}|${classKey(materia, paralelo)}`, { email, name, materia, paralelo });
+  }
+  return { students: [...students.values()], skipped };
+}
+
+/**
+ * Response rate of every session held by the roster's classes, and the enrolled students whose
+ * latest tickets are missing. A session is a calendar day with at least one ticket for the class.
+ */
+export function rosterAttendance(roster: RosterStudent[], data: TicketData[], minMissed: number): { sessions: SessionAttendance[], nonRespondents: NonRespondent[] } {
+  const sessionsByClass = new Map<string, Map<string, Set<string>>>(); // class -> session -> respondent emails
+  for (const row of data) {
+    if (isNaN(row.Timestamp.getTime())) continue;
+    const key = classKey(row.Materia, row.Paralelo);
+    const sessions = sessionsByClass.get(key) ?? new Map<string, Set<string>>();
+    const session = sessionKey(row.Timestamp);
+    sessions.set(session, (sessions.get(session) ?? new Set()).add(row['Email Address']?.trim().toLowerCase() ?? ''));
+    sessionsByClass.set(key, sessions);
+  }
+
+  const enrolledByClass = new Map<string, RosterStudent[]>();
+  for (const student of roster) {
+    const key = classKey(student.materia, student.paralelo);
+    enrolledByClass.set(key, [...(enrolledByClass.get(key) ?? []), student]);
+  }
+
+  const sessions: SessionAttendance[] = [];
+  const nonRespondents: NonRespondent[] = [];
+  for (const [key, enrolled] of enrolledByClass) {
+    const held = [...(sessionsByClass.get(key) ?? new Map<string, Set<string>>())].sort((a, b) => a[0].localeCompare(b[0]));
+    for (const [session, respondents] of held) {
+      const responded = enrolled.filter(student => respondents.has(student.email)).length;
+      sessions.push({ session, materia: enrolled[0].materia, paralelo: enrolled[0].paralelo, enrolled: enrolled.length, responded, rate: (responded / enrolled.length) * 100 });
+    }
+    for (const student of enrolled) {
+      let missedStreak = 0;
+      for (let i = held.length - 1; i >= 0 && !held[i][1].has(student.email); i--) missedStreak++;
+      if (missedStreak >= minMissed) {
+        const answered = held.filter(([, respondents]) => respondents.has(student.email));
+        nonRespondents.push({ student, missedStreak, lastResponse: answered.length ? answered[answered.length - 1][0] : null });
+      }
+    }
+  }
+
+  return {
+    sessions: sessions.sort((a, b) => b.session.localeCompare(a.session) || a.materia.localeCompare(b.materia) || a.paralelo.localeCompare(b.paralelo)),
+    nonRespondents: nonRespondents.sort((a, b) => b.missedStreak - a.missedStreak || a.student.name.localeCompare(b.student.name)),
+  };
+}
+
+/** Identifies a class regardless of case, accents or spacing, so roster and sheet values match. */
+export function classKey(materia: string, paralelo: string): string {
+  return `${normalizeHeader(materia ?? '')}|${normalizeHeader(paralelo ?? '')}`;
+}
+
+// Roster entries of a Materia and Paralelo filter; an empty value matches every class
+export function rosterForClass(roster: RosterStudent[], materia: string, paralelo: string): RosterStudent[] {
+  const same = (a: string, b: string) => normalizeHeader(a) === normalizeHeader(b);
+  return roster.filter(student => (!materia || same(student.materia, materia)) && (!paralelo || same(student.paralelo, paralelo)));
+}
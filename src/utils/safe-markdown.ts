@@ -0,0 +1,78 @@
+declare var marked: any;
+
+// The markdown subset model output may use; any other element is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'em', 'i', 'del', 's',
+  'ul', 'ol', 'li', 'blockquote', 'code', 'pre', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+// Elements removed together with their content
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'object', 'embed', 'form', 'input', 'button', 'textarea',
+  'select', 'option', 'svg', 'math', 'template', 'link', 'meta', 'base', 'noscript', 'audio', 'video',
+]);
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = { ol: ['start'], th: ['align'], td: ['align'] };
+
+/** Renders markdown from the model and keeps only the allowed subset, with links and images disabled. */
+export function renderMarkdown(markdown: string): string {
+  return sanitizeHtml(marked.parse(markdown));
+}
+
+export function sanitizeHtml(html: string): string {
+  // DOMParser documents are inert: nothing in them runs or loads
+  const source = new DOMParser().parseFromString(html, 'text/html');
+  const target = source.createElement('div');
+  copySanitized(source.body, target);
+  return target.innerHTML;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+}
+
+function copySanitized(from: Node, to: Element) {
+  const doc = to.ownerDocument;
+  for (const node of Array.from(from.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      to.appendChild(doc.createTextNode(node.textContent ?? ''));
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) continue;
+
+    if (tag === 'a') {
+      to.appendChild(neutralizedLink(element, doc));
+    } else if (tag === 'img') {
+      const alt = element.getAttribute('alt')?.trim();
+      if (alt) to.appendChild(doc.createTextNode(`[Imagen: ${alt}]`));
+    } else if (ALLOWED_TAGS.has(tag)) {
+      const clean = doc.createElement(tag);
+      for (const name of ALLOWED_ATTRIBUTES[tag] ?? []) {
+        const value = element.getAttribute(name);
+        if (value !== null && /^[\w-]+$/.test(value)) clean.setAttribute(name, value);
+      }
+      copySanitized(element, clean);
+      to.appendChild(clean);
+    } else {
+      copySanitized(element, to);
+    }
+  }
+}
+
+// Links are never clickable; the destination is shown as plain text so the teacher can judge it
+function neutralizedLink(link: Element, doc: Document): Node {
+  const span = doc.createElement('span');
+  span.setAttribute('class', 'underline decoration-dotted');
+  copySanitized(link, span);
+  const href = link.getAttribute('href')?.trim();
+  if (!href || href === link.textContent?.trim()) return span;
+  const wrapper = doc.createDocumentFragment();
+  wrapper.append(span, doc.createTextNode(` (enlace desactivado: ${href})`));
+  return wrapper;
+}
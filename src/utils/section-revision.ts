@@ -0,0 +1,49 @@
+import { MarkdownSection } from './markdown-sections';
+import { UNTRUSTED_DATA_INSTRUCTION, untrustedBlock } from './prompt-safety';
+
+export type SectionAction = 'regenerate' | 'shorten' | 'groupActivity' | 'adaptPriority';
+
+export const SECTION_ACTION_LABELS: Record<SectionAction, string> = {
+  regenerate: 'Regenerar',
+  shorten: 'Más breve',
+  groupActivity: 'Actividad grupal',
+  adaptPriority: 'Adaptar a prioritarios',
+};
+
+export interface SectionRevisionRequest {
+  action: SectionAction;
+  index: number;
+  groupSize?: number; // For 'groupActivity'
+}
+
+export interface SectionRevisionContext {
+  documentLabel: string; // "Plan de Clase" or "Guía del Estudiante"
+  materia: string;
+  classDuration: string;
+  outline: string[]; // Titles of every section, for orientation only
+  priorityNotes: string[]; // Why students were flagged, without identifying them
+}
+
+/** Builds a request that sends only the targeted section plus the surrounding context. */
+export function sectionRevisionPrompt(request: SectionRevisionRequest, section: MarkdownSection, context: SectionRevisionContext): { systemPrompt: string, userQuery: string } {
+  const instruction = {
+    regenerate: 'Reescribe la sección con un enfoque nuevo, manteniendo su propósito, su formato y su duración.',
+    shorten: 'Haz la sección más breve y directa: reduce la extensión y el tiempo de las actividades a aproximadamente la mitad, sin perder lo esencial.',
+    groupActivity: `Añade a la sección una actividad en grupos de ${request.groupSize ?? 4} estudiantes, con consigna, roles, tiempo y producto esperado. Conserva el resto del contenido.`,
+    adaptPriority: 'Adapta la sección para los estudiantes marcados como prioritarios: agrega andamiajes, ejemplos y verificaciones de comprensión dirigidas a sus dificultades. Conserva el resto del contenido.',
+  }[request.action];
+
+  const systemPrompt = `Eres un diseñador instruccional experto que revisa una sección de un ${context.documentLabel}. Devuelve únicamente el contenido revisado de la sección en Markdown, sin su título ni otras secciones. ${UNTRUSTED_DATA_INSTRUCTION}`;
+  const priority = request.action === 'adaptPriority'
+    ? `\n**Dificultades de los estudiantes prioritarios:**\n${context.priorityNotes.length ? untrustedBlock(context.priorityNotes.map(note => `- ${note}`)) : '- No hay estudiantes marcados en el filtro actual.'}`
+    : '';
+  const userQuery = `**Materia:** ${context.materia || 'Todas'}. **Duración de la clase:** ${context.classDuration || 'No indicada'} minutos.
+**Estructura del documento:** ${context.outline.filter(Boolean).join('; ')}${priority}
+
+**Sección a revisar: ${section.title || 'Introducción'}**
+
+${section.body}
+
+**Instrucción Final:** ${instruction}`;
+  return { systemPrompt, userQuery };
+}
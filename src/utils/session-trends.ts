@@ -0,0 +1,60 @@
+import { TicketData } from '../models/ticket-data.model';
+import { AnswerScales } from '../models/column-mapping.model';
+import { ValueGetter } from './student-analytics';
+import { parseScore, scaleScore, sessionKey } from './ticket-scales';
+import { classKey } from './roster';
+
+export interface SessionPoint {
+  session: string; // yyyy-mm-dd
+  materia: string;
+  paralelo: string;
+  responses: number;
+  averageScore: number | null; // 1-10
+  comprehensionIndex: number | null; // 0-100, where 100 means everyone chose the top comprehension option
+  responseRate: number | null; // 0-100, respondents over the class's enrolled (or else known) students
+}
+
+/**
+ * Groups tickets into class sessions (calendar day + Materia + Paralelo), oldest first. Without
+ * roster counts, a class's students are those who submitted at least one ticket.
+ */
+export function buildSessionTrends(data: TicketData[], value: ValueGetter, scales: AnswerScales, enrolledByClass = new Map<string, number>()): SessionPoint[] {
+  const studentsByClass = new Map<string, Set<string>>();
+  const groups = new Map<string, { session: string, materia: string, paralelo: string, rows: TicketData[] }>();
+  for (const row of data) {
+    if (isNaN(row.Timestamp.getTime())) continue;
+    const classId = classKey(row.Materia, row.Paralelo);
+    const email = row['Email Address']?.trim().toLowerCase();
+    if (email) {
+      studentsByClass.set(classId, (studentsByClass.get(classId) ?? new Set()).add(email));
+    }
+    const session = sessionKey(row.Timestamp);
+    const key = JSON.stringify([session, row.Materia, row.Paralelo]);
+    const group = groups.get(key) ?? { session, materia: row.Materia, paralelo: row.Paralelo, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ session, materia, paralelo, rows }) => {
+      const scores = rows.map(r => parseScore(value(r, 'score'))).filter((s): s is number => s !== null);
+      const comprehension = rows.map(r => scaleScore(scales.comprehension, value(r, 'comprehension'))).filter((s): s is number => s !== null);
+      const respondents = new Set(rows.map(r => r['Email Address']?.trim().toLowerCase()).filter(Boolean));
+      const classId = classKey(materia, paralelo);
+      const knownStudents = enrolledByClass.get(classId) ?? studentsByClass.get(classId)?.size ?? 0;
+      return {
+        session,
+        materia,
+        paralelo,
+        responses: rows.length,
+        averageScore: scores.length ? average(scores) : null,
+        comprehensionIndex: comprehension.length ? ((average(comprehension) - 1) / 2) * 100 : null,
+        responseRate: knownStudents ? Math.min(100, (respondents.size / knownStudents) * 100) : null,
+      };
+    })
+    .sort((a, b) => a.session.localeCompare(b.session) || a.materia.localeCompare(b.materia) || a.paralelo.localeCompare(b.paralelo));
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
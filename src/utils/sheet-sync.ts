@@ -0,0 +1,29 @@
+import { ColumnMapping, ParsedSheet } from '../models/column-mapping.model';
+
+/** A submission is identified by who sent it and when, as written in the sheet. */
+export function submissionKey(row: Record<string, string>, mapping: ColumnMapping): string {
+  return `${(row[mapping.email!] ?? '').trim().toLowerCase()}|${(row[mapping.timestamp!] ?? '').trim()}`;
+}
+
+/**
+ * Appends the fetched rows that are not in the current sheet yet. Rows that disappeared from
+ * the source are kept, so a refresh never removes data the summaries were built on.
+ */
+export function mergeNewRows(current: ParsedSheet, fetched: ParsedSheet, mapping: ColumnMapping): { sheet: ParsedSheet, added: number } {
+  const missing = [mapping.email, mapping.timestamp, mapping.subject, mapping.section].filter(header => header && !fetched.headers.includes(header));
+  if (missing.length) {
+    throw new Error(`La hoja ya no tiene las columnas ${missing.map(h => `"${h}"`).join(', ')}. Vuelve a cargarla para revisar la asignación.`);
+  }
+
+  const known = new Set(current.rows.map(row => submissionKey(row, mapping)));
+  const newRows = fetched.rows.filter(row => {
+    const key = submissionKey(row, mapping);
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+  if (!newRows.length) return { sheet: current, added: 0 };
+
+  const headers = [...current.headers, ...fetched.headers.filter(header => !current.headers.includes(header))];
+  return { sheet: { ...current, headers, rows: [...current.rows, ...newRows] }, added: newRows.length };
+}
@@ -0,0 +1,149 @@
+// Statistical tests used to flag meaningful differences between groups of tickets
+
+export interface TestResult {
+  statistic: number;
+  df: number | [number, number];
+  pValue: number;
+  // False when the sample is too small for the test's approximation to hold
+  reliable: boolean;
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Chi-square test of independence over a contingency table (rows = groups, columns =
+ * categories). Empty rows and columns are dropped.
+ */
+export function chiSquareTest(table: number[][]): TestResult | null {
+  const rows = table.filter(row => row.some(v => v > 0));
+  if (rows.length < 2) return null;
+  const columnTotals = rows[0].map((_, j) => rows.reduce((sum, row) => sum + row[j], 0));
+  const columns = columnTotals.map((total, j) => ({ total, j })).filter(c => c.total > 0);
+  if (columns.length < 2) return null;
+
+  const total = columnTotals.reduce((a, b) => a + b, 0);
+  let statistic = 0;
+  let smallExpected = 0;
+  for (const row of rows) {
+    const rowTotal = row.reduce((a, b) => a + b, 0);
+    for (const { total: columnTotal, j } of columns) {
+      const expected = (rowTotal * columnTotal) / total;
+      if (expected < 5) smallExpected++;
+      statistic += (row[j] - expected) ** 2 / expected;
+    }
+  }
+  const df = (rows.length - 1) * (columns.length - 1);
+  return {
+    statistic,
+    df,
+    pValue: 1 - regularizedGammaP(df / 2, statistic / 2),
+    // Common rule of thumb: at most 20% of cells with expected count below 5
+    reliable: smallExpected <= 0.2 * rows.length * columns.length,
+  };
+}
+
+/** One-way ANOVA comparing the means of two or more groups. */
+export function oneWayAnova(groups: number[][]): TestResult | null {
+  const valid = groups.filter(g => g.length > 0);
+  const n = valid.reduce((sum, g) => sum + g.length, 0);
+  const k = valid.length;
+  if (k < 2 || n - k < 1) return null;
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const grandMean = mean(valid.flat());
+  const between = valid.reduce((sum, g) => sum + g.length * (mean(g) - grandMean) ** 2, 0);
+  const within = valid.reduce((sum, g) => {
+    const m = mean(g);
+    return sum + g.reduce((s, v) => s + (v - m) ** 2, 0);
+  }, 0);
+  const df1 = k - 1;
+  const df2 = n - k;
+  if (within === 0) {
+    return { statistic: between > 0 ? Infinity : 0, df: [df1, df2], pValue: between > 0 ? 0 : 1, reliable: false };
+  }
+
+  const statistic = (between / df1) / (within / df2);
+  return {
+    statistic,
+    df: [df1, df2],
+    pValue: 1 - regularizedBeta((df1 * statistic) / (df1 * statistic + df2), df1 / 2, df2 / 2),
+    reliable: valid.every(g => g.length >= 5),
+  };
+}
+
+// --- Special functions (after Numerical Recipes) ---
+
+function logGamma(x: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) series += c / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 200; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+  }
+  // Continued fraction for the upper tail
+  let b = x + 1 - a;
+  let c = 1e300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 200; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return 1 - Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges fastest on this side of the mean
+  if (x > (a + 1) / (a + b + 2)) return 1 - regularizedBeta(1 - x, b, a);
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < 1e-300) d = 1e-300;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = 1 + aa / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = 1 + aa / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return (front * h) / a;
+}
@@ -0,0 +1,73 @@
+import { SummaryQuote, SummaryTheme } from '../models/summary.model';
+
+export const SUMMARY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    themes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          count: { type: 'integer', description: 'Número de respuestas que apoyan el tema' },
+          quotes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                text: { type: 'string', description: 'Cita textual de la respuesta' },
+                row: { type: 'integer', description: 'Número de fila indicado entre corchetes' },
+              },
+              required: ['text', 'row'],
+            },
+          },
+        },
+        required: ['title', 'description', 'count', 'quotes'],
+      },
+    },
+  },
+  required: ['themes'],
+};
+
+export const SUMMARY_JSON_INSTRUCTION = "Responde únicamente con un objeto JSON con la propiedad \"themes\": una lista de temas, cada uno con \"title\", \"description\", \"count\" (cuántas respuestas lo apoyan) y \"quotes\" (de 1 a 3 citas textuales representativas, cada una con \"text\" y \"row\"). Cada respuesta viene precedida por su número de fila entre corchetes, por ejemplo [12]; usa ese número en \"row\". Ordena los temas de mayor a menor \"count\".";
+
+/**
+ * Validates a model response against the summary schema. Returns null when the text is not
+ * usable JSON so callers can fall back to rendering it as Markdown.
+ */
+export function parseStructuredSummary(text: string): SummaryTheme[] | null {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!parsed || !Array.isArray(parsed.themes)) return null;
+  const themes: SummaryTheme[] = [];
+  for (const theme of parsed.themes) {
+    if (typeof theme?.title !== 'string' || typeof theme?.description !== 'string') return null;
+    const count = Number(theme.count);
+    const quotes: SummaryQuote[] = Array.isArray(theme.quotes)
+      ? theme.quotes
+          .filter((q: any) => typeof q?.text === 'string' && Number.isInteger(Number(q?.row)))
+          .map((q: any) => ({ text: q.text, row: Number(q.row) }))
+      : [];
+    themes.push({
+      title: theme.title,
+      description: theme.description,
+      count: Number.isFinite(count) && count >= 0 ? Math.round(count) : quotes.length,
+      quotes,
+    });
+  }
+  return themes.length ? themes.sort((a, b) => b.count - a.count) : null;
+}
+
+/** Flattens themes into the numbered Markdown list the rest of the app consumes. */
+export function themesToMarkdown(themes: SummaryTheme[]): string {
+  return themes
+    .map((theme, i) => `${i + 1}. **${theme.title}** (${theme.count} respuestas): ${theme.description}`)
+    .join('\n');
+}
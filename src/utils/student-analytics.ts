@@ -0,0 +1,140 @@
+import { TicketData } from '../models/ticket-data.model';
+import { AnswerScales, ColumnRole } from '../models/column-mapping.model';
+import { StudentProfile, StudentTicket, TicketFlag } from '../models/student.model';
+import { RosterStudent } from '../models/roster.model';
+import { classKey as rosterClassKey } from './roster';
+import { nameFromEmail, parseScore, scaleScore, sessionKey } from './ticket-scales';
+
+export type ValueGetter = (row: TicketData, role: ColumnRole) => any;
+export type TicketFlagger = (row: TicketData) => TicketFlag | null;
+// Real name of a student, e.g. from the class roster; undefined falls back to a name guessed from the email
+export type NameLookup = (email: string) => string | undefined;
+
+// A ticket's weight halves every RECENCY_HALF_LIFE sessions held after it
+const RECENCY_HALF_LIFE = 3;
+// Each consecutive flagged ticket before this one adds this fraction to its weight
+const REPETITION_BONUS = 0.5;
+const MISSED_SESSION_WEIGHT = 0.5;
+const RISK_SCALE = 10;
+
+export function riskLevel(riskScore: number): { label: string, badgeColor: string } {
+  if (riskScore >= 60) return { label: 'Riesgo Alto', badgeColor: 'bg-red-700' };
+  if (riskScore >= 30) return { label: 'Riesgo Medio', badgeColor: 'bg-red-500' };
+  return { label: 'Riesgo Bajo', badgeColor: 'bg-yellow-600' };
+}
+
+/**
+ * Groups tickets by student email and scores each student's risk. Flagged tickets weigh
+ * more when they are recent and when they repeat in consecutive tickets; sessions of the
+ * student's classes without a ticket from them also add to the score. Enrolled students who
+ * never submitted a ticket get a profile with every session of their classes missed.
+ */
+export function buildStudentProfiles(data: TicketData[], value: ValueGetter, scales: AnswerScales, flag: TicketFlagger, nameOf: NameLookup = () => undefined, enrolled: RosterStudent[] = []): StudentProfile[] {
+  // Sessions held by each class (Materia + Paralelo), oldest first
+  const classSessions = new Map<string, string[]>();
+  for (const row of data) {
+    if (isNaN(row.Timestamp.getTime())) continue;
+    const key = classKey(row);
+    const sessions = classSessions.get(key) ?? [];
+    const session = sessionKey(row.Timestamp);
+    if (!sessions.includes(session)) sessions.push(session);
+    classSessions.set(key, sessions);
+  }
+  classSessions.forEach(sessions => sessions.sort());
+
+  const byStudent = new Map<string, TicketData[]>();
+  for (const row of data) {
+    const email = row['Email Address']?.trim().toLowerCase();
+    if (!email || isNaN(row.Timestamp.getTime())) continue;
+    byStudent.set(email, [...(byStudent.get(email) ?? []), row]);
+  }
+
+  const profileOf = (email: string, name: string, rows: TicketData[], classes: { materia: string, paralelo: string }[]): StudentProfile => {
+    const tickets: StudentTicket[] = rows
+      .sort((a, b) => a.Timestamp.getTime() - b.Timestamp.getTime())
+      .map(row => ({
+        row,
+        date: row.Timestamp,
+        session: sessionKey(row.Timestamp),
+        comprehension: scaleScore(scales.comprehension, value(row, 'comprehension')),
+        engagement: scaleScore(scales.engagement, value(row, 'engagement')),
+        score: parseScore(value(row, 'score')),
+        flag: flag(row),
+      }));
+
+    const attended = new Set(tickets.map(t => `${classKey(t.row)}|${t.session}`));
+    const missed: { key: string, session: string }[] = [];
+    let totalSessions = 0;
+    for (const cls of classes) {
+      const key = classKey({ Materia: cls.materia, Paralelo: cls.paralelo });
+      const sessions = classSessions.get(key) ?? [];
+      totalSessions += sessions.length;
+      sessions.filter(s => !attended.has(`${key}|${s}`)).forEach(session => missed.push({ key, session }));
+    }
+
+    const sessionsAfter = (key: string, session: string) =>
+      (classSessions.get(key) ?? []).filter(s => s > session).length;
+    const recency = (key: string, session: string) => Math.pow(0.5, sessionsAfter(key, session) / RECENCY_HALF_LIFE);
+
+    let risk = 0;
+    let streak = 0;
+    let longestStreak = 0;
+    for (const ticket of tickets) {
+      if (!ticket.flag) {
+        streak = 0;
+        continue;
+      }
+      risk += recency(classKey(ticket.row), ticket.session) * ticket.flag.severity * (1 + REPETITION_BONUS * streak);
+      streak++;
+      longestStreak = Math.max(longestStreak, streak);
+    }
+    for (const { key, session } of missed) {
+      risk += MISSED_SESSION_WEIGHT * recency(key, session);
+    }
+
+    const flaggedCount = tickets.filter(t => t.flag).length;
+    const riskFactors: string[] = [];
+    if (flaggedCount) riskFactors.push(`${flaggedCount} de ${tickets.length} tickets con alertas`);
+    if (longestStreak > 1) riskFactors.push(`${longestStreak} tickets seguidos con alertas`);
+    if (tickets[tickets.length - 1]?.flag) riskFactors.push(`Último ticket: ${tickets[tickets.length - 1].flag!.reason}`);
+    if (!tickets.length) riskFactors.push('Nunca entregó un ticket');
+    if (missed.length) riskFactors.push(`${missed.length} sesiones sin responder`);
+
+    return {
+      email,
+      name,
+      classes,
+      tickets,
+      missedSessions: missed.map(m => m.session).sort(),
+      totalSessions,
+      riskScore: Math.min(100, Math.round(risk * RISK_SCALE)),
+      riskFactors,
+    };
+  };
+
+  const profiles = [...byStudent.entries()].map(([email, rows]) =>
+    profileOf(email, nameOf(email) ?? nameFromEmail(rows[0]['Email Address']), rows, uniqueClasses(rows)));
+
+  // Roster classes matched to the sheet's spelling of Materia and Paralelo
+  const sheetClasses = new Map(data.map(row => [rosterClassKey(row.Materia, row.Paralelo), { materia: row.Materia, paralelo: row.Paralelo }]));
+  const neverSubmitted = new Map<string, { name: string, classes: { materia: string, paralelo: string }[] }>();
+  for (const student of enrolled) {
+    const cls = sheetClasses.get(rosterClassKey(student.materia, student.paralelo));
+    if (byStudent.has(student.email) || !cls) continue;
+    const entry = neverSubmitted.get(student.email) ?? { name: student.name, classes: [] };
+    entry.classes.push(cls);
+    neverSubmitted.set(student.email, entry);
+  }
+  neverSubmitted.forEach(({ name, classes }, email) => profiles.push(profileOf(email, name, [], classes)));
+  return profiles;
+}
+
+function classKey(row: { Materia: string, Paralelo: string }): string {
+  return `${row.Materia}|${row.Paralelo}`;
+}
+
+function uniqueClasses(rows: TicketData[]): { materia: string, paralelo: string }[] {
+  const seen = new Map<string, { materia: string, paralelo: string }>();
+  rows.forEach(row => seen.set(classKey(row), { materia: row.Materia, paralelo: row.Paralelo }));
+  return [...seen.values()];
+}
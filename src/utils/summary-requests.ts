@@ -0,0 +1,109 @@
+import { ColumnRole } from '../models/column-mapping.model';
+import { PreprocessingSettings, PreprocessingStats } from '../models/preprocessing.model';
+import { PromptVersion } from '../models/prompt-library.model';
+import { SUMMARY_JSON_INSTRUCTION, parseStructuredSummary } from './structured-summary';
+import { UNTRUSTED_DATA_INSTRUCTION, untrustedBlock } from './prompt-safety';
+import { DUPLICATE_COUNT_INSTRUCTION, chunkLines, preprocessResponses, responseLine } from './response-preprocessing';
+import { PRE_GROUPED_INSTRUCTION, preGroupedLines } from './text-analytics';
+import { defaultPromptVersion, renderPrompt } from './prompt-library';
+
+export type SummaryType = 'learnings' | 'confused' | 'questions' | 'suggestions';
+
+export interface SummaryDefinition {
+  title: string;
+  role: ColumnRole; // Column whose answers are summarized
+}
+
+export const SUMMARY_DEFINITIONS: Record<SummaryType, SummaryDefinition> = {
+  learnings: { title: 'Aprendizajes Clave', role: 'learning' },
+  confused: { title: 'Puntos Confusos', role: 'confusion' },
+  questions: { title: 'Preguntas Pendientes', role: 'question' },
+  suggestions: { title: 'Sugerencias de Ayuda', role: 'suggestion' },
+};
+
+export const SUMMARY_TYPES = Object.keys(SUMMARY_DEFINITIONS) as SummaryType[];
+
+export interface SummaryPrompt {
+  userQuery: string;
+  systemPrompt: string;
+}
+
+/**
+ * Model calls behind one summary. `chunks` holds one prompt per block of answers; with more
+ * than one, their partial results are merged by the prompt `reduce` builds.
+ */
+export interface SummaryRequest {
+  stats: PreprocessingStats;
+  chunks: SummaryPrompt[]; // Empty when no answer is worth summarizing
+  reduce: (partials: string[]) => SummaryPrompt;
+}
+
+export interface SummaryRequestOptions {
+  // Aggregates-only privacy mode: only the word counts it returns for the answers are shared
+  aggregate?: (answers: string[]) => string[];
+  // Prompt library version; the built-in prompt when absent
+  prompt?: PromptVersion;
+}
+
+/**
+ * Builds the prompts for one summary type. The version's templates are filled per call; the
+ * output format and data-safety instructions are always appended to its system prompt.
+ */
+export function buildSummaryRequest(
+  type: SummaryType,
+  answers: { row: number, text: string }[],
+  materia: string,
+  settings: PreprocessingSettings,
+  options: SummaryRequestOptions = {},
+): SummaryRequest {
+  const version = options.prompt ?? defaultPromptVersion(type);
+  const { groups, stats } = preprocessResponses(answers, settings);
+  const render = (responses: string, instructions: string) =>
+    renderPrompt(version, { materia: materia || 'Todas', responseCount: String(stats.used), responses }, instructions);
+  const reduce = (partials: string[]): SummaryPrompt => render(
+    `Resúmenes parciales de ${partials.length} bloques con ${stats.used} respuestas en total:\n\n${untrustedBlock(partials.map((partial, i) => `Bloque ${i + 1}: ${partial}`))}`,
+    `Las respuestas se resumieron por bloques: combina los temas equivalentes de los resúmenes parciales sumando su "count" y conserva sus citas con el número de fila original. ${SUMMARY_JSON_INSTRUCTION} ${UNTRUSTED_DATA_INSTRUCTION}`,
+  );
+  if (!groups.length) return { stats, chunks: [], reduce };
+
+  if (options.aggregate) {
+    const texts = groups.flatMap(group => group.rows.map(() => group.text));
+    return {
+      stats,
+      chunks: [render(
+        `Se recibieron ${stats.used} respuestas; solo se comparten las palabras más frecuentes:\n\n${untrustedBlock(options.aggregate(texts))}`,
+        `${SUMMARY_JSON_INSTRUCTION} ${UNTRUSTED_DATA_INSTRUCTION} No tienes acceso a respuestas individuales: deja "quotes" vacío en cada tema.`,
+      )],
+      reduce,
+    };
+  }
+
+  const instructions = `${SUMMARY_JSON_INSTRUCTION} ${DUPLICATE_COUNT_INSTRUCTION}${settings.preGroup ? ` ${PRE_GROUPED_INSTRUCTION}` : ''} ${UNTRUSTED_DATA_INSTRUCTION}`;
+  const lines = settings.preGroup ? preGroupedLines(groups) : groups.map(responseLine);
+  const chunks = chunkLines(lines, settings.contextBudgetTokens);
+  return {
+    stats: { ...stats, chunks: chunks.length },
+    chunks: chunks.map((chunk, i) => {
+      const heading = chunks.length === 1 ? 'Respuestas a analizar:' : `Bloque ${i + 1} de ${chunks.length}. Respuestas a analizar:`;
+      return render(`${heading}\n\n${untrustedBlock(chunk)}`, instructions);
+    }),
+    reduce,
+  };
+}
+
+// A block's result as passed to the reduce step: its themes when they validate, else the raw text
+export function partialSummary(text: string): string {
+  const themes = parseStructuredSummary(text);
+  return themes ? JSON.stringify(themes) : text.trim();
+}
+
+/** Runs every call of a summary request in order and returns the model's final answer. */
+export async function runSummaryRequest(request: SummaryRequest, generate: (prompt: SummaryPrompt) => Promise<string>): Promise<string | null> {
+  if (!request.chunks.length) return null;
+  if (request.chunks.length === 1) return generate(request.chunks[0]);
+  const partials: string[] = [];
+  for (const chunk of request.chunks) {
+    partials.push(partialSummary(await generate(chunk)));
+  }
+  return generate(request.reduce(partials));
+}
@@ -0,0 +1,146 @@
+import { AnswerCluster, Keyword, TextAnalysis } from '../models/text-analytics.model';
+import { ResponseGroup } from '../models/preprocessing.model';
+import { normalizeAnswer, responseLine } from './response-preprocessing';
+
+export const SPANISH_STOPWORDS = new Set([
+  'a', 'al', 'algo', 'algun', 'alguna', 'algunas', 'alguno', 'algunos', 'ante', 'antes', 'aqui', 'asi', 'aun', 'bien',
+  'cada', 'casi', 'como', 'con', 'contra', 'cual', 'cuales', 'cuando', 'de', 'del', 'desde', 'donde', 'dos', 'el', 'ella',
+  'ellas', 'ellos', 'en', 'entre', 'era', 'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta', 'estaba', 'estan', 'estar',
+  'estas', 'este', 'esto', 'estos', 'estoy', 'fue', 'fueron', 'gracias', 'ha', 'hace', 'hacer', 'hay', 'he', 'hemos',
+  'hubo', 'la', 'las', 'le', 'les', 'lo', 'los', 'mas', 'me', 'mi', 'mis', 'mucho', 'muy', 'nada', 'ni', 'no', 'nos',
+  'nosotros', 'nuestra', 'nuestro', 'o', 'otra', 'otro', 'para', 'pero', 'poco', 'por', 'porque', 'profe', 'profesor',
+  'profesora', 'puede', 'pues', 'que', 'quien', 'se', 'sea', 'ser', 'si', 'sin', 'sobre', 'solo', 'son', 'su', 'sus',
+  'tal', 'tambien', 'tan', 'tanto', 'te', 'tema', 'temas', 'tener', 'tengo', 'ti', 'tiene', 'todo', 'todos', 'tu', 'tus',
+  'un', 'una', 'uno', 'unos', 'unas', 'y', 'ya', 'yo', 'clase', 'entendi', 'entiendo', 'entender', 'aprendi', 'quedo', 'claro', 'clara', 'duda', 'dudas',
+]);
+
+// Cosine similarity an answer needs with a cluster to join it
+const CLUSTER_THRESHOLD = 0.3;
+
+/** Lowercase, accent-free content words; plural "-s" is folded so "derivadas" matches "derivada". */
+export function tokenize(text: string): string[] {
+  return normalizeAnswer(text)
+    .split(' ')
+    .filter(word => word.length > 2 && !SPANISH_STOPWORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+}
+
+/**
+ * Keywords by summed TF-IDF weight and a greedy clustering of similar answers: each answer
+ * joins the first cluster whose centroid it resembles enough, otherwise it starts a new one.
+ */
+export function analyzeText<T extends { text: string }>(items: T[], keywordLimit = 15): TextAnalysis<T> {
+  const surfaceForms = new Map<string, Map<string, number>>();
+  const documents = items.map(item => {
+    const words = normalizeAnswer(item.text).split(' ');
+    const terms: string[] = [];
+    for (const word of words) {
+      const [term] = tokenize(word);
+      if (!term) continue;
+      terms.push(term);
+      const forms = surfaceForms.get(term) ?? new Map<string, number>();
+      forms.set(word, (forms.get(word) ?? 0) + 1);
+      surfaceForms.set(term, forms);
+    }
+    return { item, terms };
+  }).filter(doc => doc.terms.length);
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of new Set(doc.terms)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf = (term: string) => Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) ?? 0))) + 1;
+
+  const vectors = documents.map(doc => {
+    const vector = new Map<string, number>();
+    for (const term of doc.terms) vector.set(term, (vector.get(term) ?? 0) + 1);
+    for (const [term, count] of vector) vector.set(term, (count / doc.terms.length) * idf(term));
+    return normalize(vector);
+  });
+
+  const scores = new Map<string, number>();
+  for (const vector of vectors) {
+    for (const [term, weight] of vector) scores.set(term, (scores.get(term) ?? 0) + weight);
+  }
+  const displayForm = (term: string) => [...surfaceForms.get(term)!].sort((a, b) => b[1] - a[1])[0][0];
+  const keywords: Keyword[] = [...scores]
+    .filter(([term]) => (documentFrequency.get(term) ?? 0) > 1 || documents.length < 5)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, keywordLimit)
+    .map(([term, score]) => ({ term: displayForm(term), answers: documentFrequency.get(term) ?? 0, score }));
+
+  const clusters: { centroid: Map<string, number>, items: T[], vectors: Map<string, number>[] }[] = [];
+  vectors.forEach((vector, i) => {
+    let best: typeof clusters[number] | null = null;
+    let bestSimilarity = CLUSTER_THRESHOLD;
+    for (const cluster of clusters) {
+      const similarity = dot(vector, cluster.centroid);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+    if (best) {
+      best.items.push(documents[i].item);
+      best.vectors.push(vector);
+      best.centroid = centroid(best.vectors);
+    } else {
+      clusters.push({ centroid: vector, items: [documents[i].item], vectors: [vector] });
+    }
+  });
+
+  return {
+    answered: documents.length,
+    keywords,
+    clusters: clusters
+      .map<AnswerCluster<T>>(cluster => ({
+        keywords: [...cluster.centroid].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([term]) => displayForm(term)),
+        items: cluster.items,
+      }))
+      .sort((a, b) => b.items.length - a.items.length),
+  };
+}
+
+export const PRE_GROUPED_INSTRUCTION = 'Las respuestas vienen pre-agrupadas por palabras en común (líneas "Grupo local"): úsalas como punto de partida y fusiona o divide los grupos cuando el significado lo pida.';
+
+/** Prompt lines with similar answers next to each other under a "Grupo local" header. */
+export function preGroupedLines(groups: ResponseGroup[]): string[] {
+  const { clusters } = analyzeText(groups);
+  const clustered = new Set(clusters.flatMap(cluster => cluster.items));
+  const ungrouped = groups.filter(group => !clustered.has(group));
+  return [
+    ...clusters.flatMap((cluster, i) => [
+      `Grupo local ${i + 1} (palabras clave: ${cluster.keywords.join(', ')}):`,
+      ...cluster.items.map(responseLine),
+    ]),
+    ...(ungrouped.length ? ['Sin grupo:', ...ungrouped.map(responseLine)] : []),
+  ];
+}
+
+// Plural to singular: "-es" only follows a vowel plus l, n, r, d or j (papeles, canciones, mujeres);
+// other plurals just add "-s" (variables, clases, tareas)
+function stem(word: string): string {
+  if (word.length > 4 && /[aeiou][lnrdj]es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+function normalize(vector: Map<string, number>): Map<string, number> {
+  const length = Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0)) || 1;
+  for (const [term, weight] of vector) vector.set(term, weight / length);
+  return vector;
+}
+
+function dot(a: Map<string, number>, b: Map<string, number>): number {
+  let sum = 0;
+  for (const [term, weight] of a) sum += weight * (b.get(term) ?? 0);
+  return sum;
+}
+
+function centroid(vectors: Map<string, number>[]): Map<string, number> {
+  const sum = new Map<string, number>();
+  for (const vector of vectors) {
+    for (const [term, weight] of vector) sum.set(term, (sum.get(term) ?? 0) + weight);
+  }
+  return normalize(sum);
+}
@@ -0,0 +1,177 @@
+import { TicketData, FilterState } from '../models/ticket-data.model';
+import { AnswerScales, ColumnMapping, ColumnRole, ParsedSheet } from '../models/column-mapping.model';
+import { PriorityStudent, StudentProfile } from '../models/student.model';
+import { NonRespondent } from '../models/roster.model';
+import { ValueGetter } from './student-analytics';
+import { severityBadgeColor } from './priority-rules';
+import { COMPREHENSION_LABELS, ENGAGEMENT_LABELS, parseScore, scaleScore } from './ticket-scales';
+import { parseSheetDate } from './date-parsing';
+import { fixedRows } from './import-validation';
+
+// Severity given to enrolled students who stopped submitting tickets
+const NON_RESPONSE_SEVERITY = 2;
+
+export interface SummaryCards {
+  totalResponses: number;
+  averageScore: string; // Two decimals, or 'N/A'
+  averageComprehension: string; // Verbal level, or 'N/A'
+}
+
+export interface ChartDatum {
+  category: string;
+  count: number;
+}
+
+export interface ChartData {
+  comprehension: ChartDatum[];
+  engagement: ChartDatum[];
+  score: ChartDatum[]; // Sorted by score
+}
+
+/** Reads the answer a row holds for a role under a column mapping. */
+export function mappedValue(row: TicketData, role: ColumnRole, mapping: ColumnMapping): any {
+  switch (role) {
+    case 'timestamp': return row.Timestamp;
+    case 'email': return row['Email Address'];
+    case 'subject': return row.Materia;
+    case 'section': return row.Paralelo;
+  }
+  const header = mapping[role];
+  return header ? row[header] : undefined;
+}
+
+/**
+ * Turns the rows of a mapped sheet into tickets, dropping the rows the import report
+ * excluded and rows without a Materia or a readable timestamp.
+ */
+export function toTicketRows(sheet: ParsedSheet, mapping: ColumnMapping, dateFormat: 'dmy' | 'mdy' | 'ymd'): TicketData[] {
+  const excluded = new Set(sheet.excludedRows ?? []);
+  return fixedRows(sheet)
+    .map((row, index) => ({
+      ...row,
+      rowNumber: index + 2,
+      Timestamp: parseSheetDate(row[mapping.timestamp!], dateFormat) ?? new Date(NaN),
+      'Email Address': row[mapping.email!],
+      Materia: row[mapping.subject!],
+      Paralelo: row[mapping.section!],
+    }))
+    .filter(row => !excluded.has(row.rowNumber) && row.Materia && !isNaN(row.Timestamp.getTime()));
+}
+
+// Dates are yyyy-mm-dd strings as produced by date inputs; the end date includes the whole day
+export function filterByDate(data: TicketData[], startDate: string, endDate: string): TicketData[] {
+  const start = startDate ? new Date(startDate) : null;
+  const end = endDate ? new Date(endDate) : null;
+  if (end) end.setHours(23, 59, 59, 999);
+  return data.filter(row => (!start || row.Timestamp >= start) && (!end || row.Timestamp <= end));
+}
+
+// Empty values match every Materia or Paralelo
+export function filterByClass(data: TicketData[], materia: string, paralelo: string): TicketData[] {
+  return data.filter(row => (!materia || row.Materia === materia) && (!paralelo || row.Paralelo === paralelo));
+}
+
+export function filterTickets(data: TicketData[], filters: FilterState): TicketData[] {
+  return filterByClass(filterByDate(data, filters.startDate, filters.endDate), filters.materia, filters.paralelo);
+}
+
+/** Every Materia × Paralelo combination present in the data, sorted. */
+export function classCombinations(data: TicketData[]): { materia: string, paralelo: string }[] {
+  const keys = new Map<string, { materia: string, paralelo: string }>();
+  for (const row of data) {
+    keys.set(`${row.Materia}|${row.Paralelo}`, { materia: row.Materia, paralelo: row.Paralelo });
+  }
+  return [...keys.values()].sort((a, b) => a.materia.localeCompare(b.materia) || a.paralelo.localeCompare(b.paralelo));
+}
+
+export function summaryCards(data: TicketData[], value: ValueGetter, scales: AnswerScales): SummaryCards {
+  const scores = data.map(d => parseScore(value(d, 'score'))).filter((s): s is number => s !== null);
+  const comprehension = data.map(d => scaleScore(scales.comprehension, value(d, 'comprehension'))).filter((s): s is number => s !== null);
+  return {
+    totalResponses: data.length,
+    averageScore: scores.length ? average(scores).toFixed(2) : 'N/A',
+    averageComprehension: comprehension.length ? comprehensionLevel(average(comprehension)) : 'N/A',
+  };
+}
+
+/** Category counts behind the comprehension, engagement and score charts. */
+export function chartData(data: TicketData[], value: ValueGetter): ChartData {
+  const scores = countBy(data, row => parseScore(value(row, 'score'))?.toString() ?? '');
+  return {
+    comprehension: countBy(data, row => labelFor(value(row, 'comprehension'), COMPREHENSION_LABELS)),
+    engagement: countBy(data, row => labelFor(value(row, 'engagement'), ENGAGEMENT_LABELS)),
+    score: scores.sort((a, b) => parseInt(a.category) - parseInt(b.category)),
+  };
+}
+
+/**
+ * One entry per profile with a flagged ticket among `inFilter` or listed in `nonRespondents`,
+ * in profile order. The reason is the latest flag's, with how often the student was flagged,
+ * followed by the sessions in a row the student did not answer.
+ */
+export function buildPriorityStudents(profiles: StudentProfile[], inFilter: TicketData[], nonRespondents: NonRespondent[] = []): PriorityStudent[] {
+  const rows = new Set(inFilter);
+  const missing = new Map(nonRespondents.map(entry => [entry.student.email, entry]));
+  return profiles
+    .map(profile => ({ profile, flagged: profile.tickets.filter(t => t.flag && rows.has(t.row)), absent: missing.get(profile.email) }))
+    .filter(({ flagged, absent }) => flagged.length > 0 || absent)
+    .map(({ profile, flagged, absent }) => {
+      const absence = absent && `${absent.missedStreak} tickets seguidos sin responder`;
+      if (!flagged.length) {
+        const { student, lastResponse } = absent!;
+        return {
+          email: profile.email,
+          name: profile.name,
+          materia: student.materia,
+          paralelo: student.paralelo,
+          fecha: lastResponse ? new Date(`${lastResponse}T00:00`).toLocaleDateString('es-ES') : 'Sin tickets',
+          razon: absence!,
+          badgeColor: severityBadgeColor(NON_RESPONSE_SEVERITY),
+          riskScore: profile.riskScore,
+          severity: NON_RESPONSE_SEVERITY,
+          matchedRules: [],
+        };
+      }
+      const latest = flagged[flagged.length - 1];
+      const severity = Math.max(...flagged.map(t => t.flag!.severity));
+      const reason = flagged.length > 1 ? `${latest.flag!.reason} (${flagged.length} veces)` : latest.flag!.reason;
+      return {
+        email: profile.email,
+        name: profile.name,
+        materia: latest.row.Materia,
+        paralelo: latest.row.Paralelo,
+        fecha: latest.date.toLocaleDateString('es-ES'),
+        razon: absence ? `${reason} · ${absence}` : reason,
+        badgeColor: severityBadgeColor(severity),
+        riskScore: profile.riskScore,
+        severity,
+        matchedRules: [...new Set(flagged.flatMap(t => t.flag!.matchedRules))],
+      };
+    });
+}
+
+function comprehensionLevel(avg: number): string {
+  if (avg >= 2.7) return "¡Excelente Comprensión!";
+  if (avg >= 2.0) return "Buena (Pocas Dudas)";
+  if (avg >= 1.0) return "Media (Necesita Revisión)";
+  return "Baja (Refuerzo Urgente)";
+}
+
+// Known form answers get their short label; anything else is counted as written
+function labelFor(answer: any, labels: { [answer: string]: string }): string {
+  const text = typeof answer === 'string' ? answer.trim() : '';
+  return labels[text] || text;
+}
+
+function countBy(data: TicketData[], key: (row: TicketData) => string): ChartDatum[] {
+  const counts = new Map<string, number>();
+  for (const row of data) {
+    const category = key(row);
+    if (category) counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+  return [...counts.entries()].map(([category, count]) => ({ category, count }));
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
@@ -0,0 +1,66 @@
+import { AnswerScales, ScaleRole } from '../models/column-mapping.model';
+import { normalizeHeader } from './column-matching';
+
+// Answer options of the original exit-ticket form and their ordinal values (higher is better)
+export const COMPREHENSION_SCORES: { [answer: string]: number } = {
+  "¡Entendido! - Lo domino y podría explicarlo.": 3,
+  "Más o menos. - Entendí la idea general, pero tengo dudas.": 2,
+  "No entendí casi nada. - Me siento bastante perdido/a.": 1,
+};
+
+export const COMPREHENSION_LABELS: { [answer: string]: string } = {
+  "¡Entendido! - Lo domino y podría explicarlo.": "Dominado",
+  "Más o menos. - Entendí la idea general, pero tengo dudas.": "Dudas/Idea General",
+  "No entendí casi nada. - Me siento bastante perdido/a.": "Perdido/a",
+};
+
+export const ENGAGEMENT_SCORES: { [answer: string]: number } = {
+  "Muy Comprometido/a: Me esforcé al máximo.": 3,
+  "Comprometido/a: Sé que podría haberme esforzado un poco más.": 2,
+  "Poco Comprometido/a: Podría haberme esforzado mucho más.": 1,
+};
+
+export const ENGAGEMENT_LABELS: { [answer: string]: string } = {
+  "Muy Comprometido/a: Me esforcé al máximo.": "Máximo Esfuerzo",
+  "Comprometido/a: Sé que podría haberme esforzado un poco más.": "Podría Esforzarme Más",
+  "Poco Comprometido/a: Podría haberme esforzado mucho más.": "Esfuerzo Bajo",
+};
+
+// Used until the teacher scores the options of a form worded differently
+export const DEFAULT_ANSWER_SCALES: AnswerScales = {
+  comprehension: COMPREHENSION_SCORES,
+  engagement: ENGAGEMENT_SCORES,
+};
+
+export const SCALE_ROLES: ScaleRole[] = ['comprehension', 'engagement'];
+
+/** Score of a multiple-choice answer, ignoring case, accents and punctuation; null when it is not an option. */
+export function scaleScore(scale: Record<string, number>, answer: any): number | null {
+  if (typeof answer !== 'string' || !answer.trim()) return null;
+  if (scale[answer.trim()]) return scale[answer.trim()];
+  const normalized = normalizeHeader(answer);
+  const option = Object.keys(scale).find(option => normalizeHeader(option) === normalized);
+  return option ? scale[option] : null;
+}
+
+/** Answer options of a scale, highest score first. */
+export function scaleOptions(scale: Record<string, number>): string[] {
+  return Object.keys(scale).sort((a, b) => scale[b] - scale[a]);
+}
+
+/** Parses a 1-10 satisfaction answer, returning null when it is missing or out of range. */
+export function parseScore(value: any): number | null {
+  const score = parseInt(value);
+  return !isNaN(score) && score >= 1 && score <= 10 ? score : null;
+}
+
+/** Local calendar day of a ticket, used to group tickets into class sessions. */
+export function sessionKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Display name guessed from an email address. */
+export function nameFromEmail(email: string | undefined): string {
+  return email?.split('@')[0].replace(/\./g, ' ').toUpperCase() || 'Desconocido';
+}
@@ -0,0 +1,71 @@
+import { LlmPayload } from '../models/privacy.model';
+import { CachedResponse, UsageEntry, UsageSettings, UsageTotals } from '../models/usage.model';
+import { sessionKey } from './ticket-scales';
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  cacheEnabled: true,
+  cacheTtlHours: 24,
+  dailyTokenBudget: 200000,
+  largeRequestTokens: 20000,
+};
+
+/**
+ * Identifies a request by provider, model and hashes of both prompts. The response schema is
+ * hashed with the system prompt, since the same prompts without it get a different answer.
+ */
+export async function cacheKey(payload: Pick<LlmPayload, 'provider' | 'model' | 'systemPrompt' | 'userQuery'>, jsonSchema?: object): Promise<string> {
+  const [system, query] = await Promise.all([
+    sha256(`${payload.systemPrompt}\n${JSON.stringify(jsonSchema ?? null)}`),
+    sha256(payload.userQuery),
+  ]);
+  return [payload.provider, payload.model, system, query].join('|');
+}
+
+export function isExpired(entry: CachedResponse, ttlHours: number, now = Date.now()): boolean {
+  return now - entry.createdAt > ttlHours * 3600 * 1000;
+}
+
+export function usageDay(timestamp: number): string {
+  return sessionKey(new Date(timestamp));
+}
+
+// Tokens actually sent and received; cache hits cost nothing
+export function tokensSpent(entries: UsageEntry[]): number {
+  return entries.reduce((sum, e) => e.cached ? sum : sum + e.inputTokens + e.outputTokens, 0);
+}
+
+/** Sums the ledger per key (a day, a Materia...), largest spend first. */
+export function usageTotals(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageTotals[] {
+  const totals = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const total = totals.get(key) ?? { key, calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, estimated: false };
+    if (entry.cached) {
+      total.cachedCalls++;
+    } else {
+      total.calls++;
+      total.inputTokens += entry.inputTokens;
+      total.outputTokens += entry.outputTokens;
+      total.estimated ||= entry.estimated;
+    }
+    totals.set(key, total);
+  }
+  return [...totals.values()].sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens) || a.key.localeCompare(b.key));
+}
+
+/** Why a request should be confirmed before sending, or null when it is within the limits. */
+export function budgetWarning(settings: UsageSettings, requestTokens: number, spentToday: number): string | null {
+  const formatted = (tokens: number) => tokens.toLocaleString('es-ES');
+  if (settings.largeRequestTokens && requestTokens > settings.largeRequestTokens) {
+    return `Esta solicitud ocupa unos ${formatted(requestTokens)} tokens, más que el límite de ${formatted(settings.largeRequestTokens)} por solicitud.`;
+  }
+  if (settings.dailyTokenBudget && spentToday + requestTokens > settings.dailyTokenBudget) {
+    return `Hoy se han usado ${formatted(spentToday)} tokens y esta solicitud añade unos ${formatted(requestTokens)}: se superará el presupuesto diario de ${formatted(settings.dailyTokenBudget)}.`;
+  }
+  return null;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}